@@ -1,64 +1,201 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { registerOpenSourceAdapters } from '../src/adapters/opensource-llm';
+import { allowedOrigins, authenticate, authorize, canAccessRun, Principal, sendAuthError } from '../src/auth';
 import { researchToAppFlow } from '../src/flows/research-to-app-trial';
-import { compileWorkflow, executeWorkflow } from 'bilko-flow';
+import { workflowCatalog } from '../src/flows/catalog';
+import { configureWorkflow, FlowConfigurationError, parseFlowConfiguration } from '../src/flows/configure';
+import { resolveWorkflowInputs, WorkflowInputError } from '../src/flows/validate';
+import { modelRegistry } from '../src/models/registry';
+import { CACHE_MODES, isCacheMode } from '../src/adapters/cache';
+import { saturatedBackend } from '../src/adapters/limiter';
+import { createRun, executeRun } from '../src/runs/executor';
+import { runRegistry, summarizeRun, describeRun } from '../src/runs/registry';
+import { registerLocalStepHandlers } from '../src/steps';
+import { registerNotifications } from '../src/notifications';
+import { installConsoleRedaction, MissingSecretsError, resolveSecrets } from '../src/secrets';
 
-// Register adapters on startup
+// Register adapters on startup; workflows are validated and compiled when requested
+installConsoleRedaction();
 registerOpenSourceAdapters();
-const compiledWorkflow = compileWorkflow(researchToAppFlow);
+registerLocalStepHandlers();
+registerNotifications();
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS headers, for allowlisted origins only (CORS_ORIGINS)
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+  let principal: Principal;
+  try {
+    principal = await authenticate({ headers: req.headers, remoteAddress: req.socket?.remoteAddress });
+    authorize(principal, req.method === 'GET' ? 'viewer' : 'runner');
+  } catch (error) {
+    return sendAuthError(res, error);
   }
 
   try {
-    const { researchTopic, modelConfigs } = req.body;
+    if (req.method === 'GET') {
+      return await handleStatus(req, res, principal);
+    }
 
-    if (!researchTopic) {
-      return res.status(400).json({ error: 'researchTopic is required' });
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
     }
 
-    console.log(`🚀 Starting workflow for: ${researchTopic}`);
-
-    const result = await executeWorkflow(compiledWorkflow, {
-      researchTopic,
-      modelConfigs: modelConfigs || {
-        ollama: {
-          baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
-          apiKey: 'not-required'
-        }
-      },
-      secrets: {
-        DATABASE_URL: process.env.DATABASE_URL || '',
-        JWT_SECRET: process.env.JWT_SECRET || ''
-      }
-    });
-
-    res.status(200).json({
-      success: true,
-      data: result,
-      metadata: {
-        executionTime: result.metadata.duration,
-        stepsExecuted: result.metadata.stepsExecuted
-      }
-    });
+    if (req.query.action === 'cancel') {
+      return await handleCancel(req, res, principal);
+    }
+
+    return await handleExecute(req, res, principal);
+  } catch (error) {
+    console.error('❌ Request failed:', error instanceof Error ? error.message : error);
+    // Once a run's events are streaming the status line has gone out; just close the stream
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+async function handleExecute(req: VercelRequest, res: VercelResponse, principal: Principal) {
+  // `workflowId` + `inputs` runs any catalog workflow; a bare `researchTopic` runs research-to-app
+  const { workflowId = researchToAppFlow.name, researchTopic, modelConfigs, cache, secrets: clientSecrets } = req.body;
+
+  if (clientSecrets !== undefined) {
+    return res.status(400).json({ error: 'secrets cannot be sent with a request; they are resolved on the server' });
+  }
 
+  const entry = await workflowCatalog.get(workflowId);
+
+  if (!entry) {
+    return res.status(404).json({ error: `Workflow not found: ${workflowId}` });
+  }
+
+  if (!entry.definition || entry.errors.length > 0) {
+    return res.status(400).json({ error: `Workflow ${entry.id} is invalid`, details: entry.errors });
+  }
+
+  if (cache !== undefined && !isCacheMode(cache)) {
+    return res.status(400).json({ error: `cache must be one of: ${CACHE_MODES.join(', ')}` });
+  }
+
+  const provided = req.body.inputs ?? (researchTopic !== undefined ? { researchTopic } : {});
+  let configuration;
+  let inputs;
+  let workflow;
+  try {
+    configuration = parseFlowConfiguration(req.body);
+    inputs = resolveWorkflowInputs(entry.inputs, provided);
+    workflow = configureWorkflow(entry.definition, configuration);
+  } catch (error) {
+    if (error instanceof WorkflowInputError || error instanceof FlowConfigurationError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
+    }
+    throw error;
+  }
+
+  // Secrets come from the function's environment (or SECRETS_FILE), never from the client
+  let secrets;
+  try {
+    secrets = await resolveSecrets(workflow.secrets);
   } catch (error) {
-    console.error('Workflow execution failed:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      step: error instanceof Error && 'step' in error ? error.step : undefined
-    });
-  }
-}
\ No newline at end of file
+    if (error instanceof MissingSecretsError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
+    }
+    throw error;
+  }
+
+  const params = {
+    cache,
+    owner: principal.user,
+    modelConfigs: modelConfigs || {
+      ollama: {
+        baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+        apiKey: 'not-required'
+      }
+    },
+    secrets
+  };
+
+  const problems = await modelRegistry.checkWorkflow(workflow, params.modelConfigs);
+  if (problems.length > 0) {
+    return res.status(400).json({ error: 'Pre-flight check failed', details: problems });
+  }
+
+  const saturated = saturatedBackend(workflow, params.modelConfigs);
+  if (saturated) {
+    const retryAfter = saturated.retryAfterSeconds();
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({ error: `Backend queue is full: ${saturated.backend}`, retryAfter });
+  }
+
+  const run = createRun(workflow, inputs, params, configuration);
+  console.log(`🚀 Started run ${run.id} for ${entry.id}`);
+
+  // An instance may be frozen as soon as it responds, so the run executes within this
+  // invocation (bound by the function's maxDuration) and its events stream back as
+  // newline-delimited JSON: the accepted run, each run event, then the finished run
+  res.writeHead(202, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const write = (data: unknown) => res.write(`${JSON.stringify(data)}\n`);
+  write({
+    success: true,
+    runId: run.id,
+    status: run.status,
+    links: {
+      self: `/api/execute?id=${run.id}`,
+      cancel: `/api/execute?id=${run.id}&action=cancel`
+    }
+  });
+
+  const unsubscribe = runRegistry.subscribe(run.id, write);
+  // Nobody is left to read the result once the client goes away
+  res.on('close', () => runRegistry.cancel(run.id));
+  try {
+    await executeRun(run, workflow, params);
+  } finally {
+    unsubscribe();
+  }
+
+  write(describeRun(run));
+  res.end();
+}
+
+async function handleStatus(req: VercelRequest, res: VercelResponse, principal: Principal) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    const runs = await runRegistry.list({ owner: principal.role === 'admin' ? undefined : principal.user });
+    return res.status(200).json({ runs: runs.map(summarizeRun) });
+  }
+
+  const run = await runRegistry.get(id);
+  if (!run || !canAccessRun(principal, run)) {
+    return res.status(404).json({ error: `Run not found: ${id}` });
+  }
+
+  res.status(200).json(describeRun(run));
+}
+
+async function handleCancel(req: VercelRequest, res: VercelResponse, principal: Principal) {
+  const { id } = req.query;
+  const run = typeof id === 'string' ? await runRegistry.get(id) : undefined;
+
+  if (!run || !canAccessRun(principal, run)) {
+    return res.status(404).json({ error: `Run not found: ${id}` });
+  }
+
+  if (!runRegistry.cancel(run.id)) {
+    return res.status(409).json({ error: `Run is already ${run.status}` });
+  }
+
+  res.status(202).json({ success: true, runId: run.id });
+}
@@ -1,7 +1,100 @@
+const STEP_NAMES = {
+    'analyze-research-topic': '🔍 Analyzing Research Topic',
+    'design-architecture': '🏗️ Designing Architecture',
+    'generate-project-structure': '📁 Generating Project Structure',
+    'create-core-components': '💻 Creating Core Components',
+    'setup-testing': '🧪 Setting Up Testing',
+    'create-documentation': '📚 Creating Documentation',
+    'setup-deployment': '🚀 Setting Up Deployment',
+    'verify-generated-project': '🔬 Verifying Generated Project',
+    'quality-assurance': '✅ Quality Assurance'
+};
+
+const API_KEY_STORAGE = 'research-to-app.apiKey';
+
+// API calls carry the key saved in the header field; keys never go in URLs
+function apiFetch(url, options = {}) {
+    const apiKey = localStorage.getItem(API_KEY_STORAGE);
+    const headers = { ...options.headers, ...(apiKey && { 'X-API-Key': apiKey }) };
+    return fetch(url, { ...options, headers });
+}
+
+// Model output and error text are untrusted; escape them before they go into innerHTML
+function escapeHtml(value) {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+async function responseError(response) {
+    const body = await response.json().catch(() => ({}));
+    return new Error(body.error || `Request failed: ${response.status}`);
+}
+
+// Server-Sent Events read through fetch, since EventSource can't send the API key header.
+// Calls onEvent(type, data) for each event until the server closes the stream.
+async function readEventStream(url, onEvent) {
+    const response = await apiFetch(url);
+    if (!response.ok) {
+        throw await responseError(response);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+            return;
+        }
+
+        buffer += value;
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let type = 'message';
+            const data = [];
+            block.split('\n').forEach(line => {
+                if (line.startsWith('event:')) {
+                    type = line.slice('event:'.length).trim();
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice('data:'.length).trimStart());
+                }
+            });
+            if (data.length > 0) {
+                onEvent(type, data.join('\n'));
+            }
+        }
+    }
+}
+
+// Fetch a file with the API key and hand it to the browser as a download
+async function downloadFile(url, filename) {
+    const response = await apiFetch(url);
+    if (!response.ok) {
+        throw await responseError(response);
+    }
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
+
+// Steps that call a model and can be overridden individually
+const OVERRIDABLE_STEPS = Object.keys(STEP_NAMES).filter(step => step !== 'verify-generated-project');
+
 class WorkflowApp {
     constructor() {
         this.currentExecution = null;
+        this.lastRunId = null;
         this.stepProgress = {};
+        this.modelOptions = {};
         this.init();
     }
 
@@ -9,6 +102,7 @@ class WorkflowApp {
         this.bindEvents();
         this.checkModelStatus();
         this.setupModelProviderChange();
+        this.loadHistory();
     }
 
     bindEvents() {
@@ -20,6 +114,42 @@ class WorkflowApp {
             });
         }
 
+        const planButton = document.getElementById('plan-btn');
+        if (planButton) {
+            planButton.addEventListener('click', () => this.previewPlan());
+        }
+
+        const cancelButton = document.getElementById('cancel-btn');
+        if (cancelButton) {
+            cancelButton.addEventListener('click', () => this.cancelRun());
+        }
+
+        const historySearch = document.getElementById('history-search');
+        if (historySearch) {
+            historySearch.addEventListener('input', () => this.loadHistory());
+        }
+
+        const compareButton = document.getElementById('compare-btn');
+        if (compareButton) {
+            compareButton.addEventListener('click', () => this.compareRuns());
+        }
+
+        const apiKeyInput = document.getElementById('api-key');
+        if (apiKeyInput) {
+            apiKeyInput.value = localStorage.getItem(API_KEY_STORAGE) || '';
+            apiKeyInput.addEventListener('change', () => {
+                const apiKey = apiKeyInput.value.trim();
+                if (apiKey) {
+                    localStorage.setItem(API_KEY_STORAGE, apiKey);
+                } else {
+                    localStorage.removeItem(API_KEY_STORAGE);
+                }
+                this.checkModelStatus();
+                this.loadModels();
+                this.loadHistory();
+            });
+        }
+
         const tabButtons = document.querySelectorAll('.tab-btn');
         tabButtons.forEach(btn => {
             btn.addEventListener('click', (e) => {
@@ -30,50 +160,127 @@ class WorkflowApp {
 
     setupModelProviderChange() {
         const providerSelect = document.getElementById('model-provider');
-        const modelSelect = document.getElementById('model-name');
-        
-        const modelOptions = {
-            ollama: [
-                { value: 'llama3:8b', text: 'Llama3 8B' },
-                { value: 'codellama', text: 'CodeLlama' },
-                { value: 'mistral', text: 'Mistral' },
-                { value: 'mixtral', text: 'Mixtral' },
-                { value: 'qwen:7b', text: 'Qwen 7B' },
-                { value: 'phi3', text: 'Phi 3' }
-            ],
-            vllm: [
-                { value: 'meta-llama/Llama-2-7b-chat-hf', text: 'Llama2 7B Chat' },
-                { value: 'meta-llama/Llama-3-8B-Instruct', text: 'Llama3 8B Instruct' },
-                { value: 'mistralai/Mistral-7B-Instruct-v0.1', text: 'Mistral 7B Instruct' },
-                { value: 'codellama/CodeLlama-7b-Instruct-hf', text: 'CodeLlama 7B Instruct' }
-            ],
-            tgi: [
-                { value: 'meta-llama/Llama-2-7b-chat-hf', text: 'Llama2 7B Chat' },
-                { value: 'meta-llama/Llama-3-8B-Instruct', text: 'Llama3 8B Instruct' },
-                { value: 'mistralai/Mistral-7B-Instruct-v0.1', text: 'Mistral 7B Instruct' }
-            ]
-        };
 
         providerSelect.addEventListener('change', (e) => {
-            const provider = e.target.value;
-            const models = modelOptions[provider] || [];
-            
-            modelSelect.innerHTML = '';
-            models.forEach(model => {
-                const option = document.createElement('option');
-                option.value = model.value;
-                option.textContent = model.text;
-                modelSelect.appendChild(option);
+            this.populateModelSelect(e.target.value);
+            this.renderOverrideTable(e.target.value);
+        });
+
+        this.loadModels();
+    }
+
+    // Dropdowns list what each backend actually serves, as reported by the model registry
+    async loadModels() {
+        try {
+            const response = await apiFetch('/api/models');
+            const data = await response.json();
+
+            this.modelOptions = {};
+            data.providers.forEach(backend => {
+                this.modelOptions[backend.provider] = backend.models.map(model => {
+                    const details = [
+                        model.parameterSize,
+                        model.quantization,
+                        model.contextLength && `${model.contextLength} ctx`
+                    ].filter(Boolean);
+                    return {
+                        value: model.id,
+                        text: details.length > 0 ? `${model.id} (${details.join(', ')})` : model.id
+                    };
+                });
+            });
+        } catch (error) {
+            console.error('Failed to load models:', error);
+        }
+
+        const provider = document.getElementById('model-provider').value;
+        this.populateModelSelect(provider);
+        this.renderOverrideTable(provider);
+    }
+
+    populateModelSelect(provider) {
+        const modelSelect = document.getElementById('model-name');
+        const models = this.modelOptions[provider] || [];
+
+        modelSelect.innerHTML = '';
+        if (models.length === 0) {
+            modelSelect.innerHTML = '<option value="" disabled selected>No models served</option>';
+            return;
+        }
+
+        models.forEach(model => {
+            const option = document.createElement('option');
+            option.value = model.value;
+            option.textContent = model.text;
+            modelSelect.appendChild(option);
+        });
+    }
+
+    renderOverrideTable(provider) {
+        const body = document.getElementById('step-overrides-body');
+        if (!body) {
+            return;
+        }
+
+        body.innerHTML = '';
+        OVERRIDABLE_STEPS.forEach(step => {
+            const row = document.createElement('tr');
+            row.dataset.step = step;
+
+            const name = document.createElement('td');
+            name.textContent = STEP_NAMES[step];
+
+            const modelCell = document.createElement('td');
+            const model = document.createElement('select');
+            model.name = 'model';
+            model.innerHTML = '<option value="">Primary model</option>';
+            (this.modelOptions[provider] || []).forEach(option => {
+                const element = document.createElement('option');
+                element.value = option.value;
+                element.textContent = option.text;
+                model.appendChild(element);
             });
+            modelCell.appendChild(model);
+
+            const temperatureCell = document.createElement('td');
+            temperatureCell.innerHTML = '<input type="number" name="temperature" min="0" max="2" step="0.1" placeholder="Default">';
+
+            const maxTokensCell = document.createElement('td');
+            maxTokensCell.innerHTML = '<input type="number" name="maxTokens" min="1" step="1" placeholder="Default">';
+
+            row.append(name, modelCell, temperatureCell, maxTokensCell);
+            body.appendChild(row);
         });
     }
 
+    // Only steps with at least one field filled in are sent
+    collectStepOverrides() {
+        const overrides = {};
+
+        document.querySelectorAll('#step-overrides-body tr').forEach(row => {
+            const model = row.querySelector('[name="model"]').value;
+            const temperature = row.querySelector('[name="temperature"]').value;
+            const maxTokens = row.querySelector('[name="maxTokens"]').value;
+
+            const values = {
+                ...(model && { model }),
+                ...(temperature !== '' && { temperature: Number(temperature) }),
+                ...(maxTokens !== '' && { maxTokens: Number(maxTokens) })
+            };
+            if (Object.keys(values).length > 0) {
+                overrides[row.dataset.step] = values;
+            }
+        });
+
+        return overrides;
+    }
+
     async checkModelStatus() {
         const statusContainer = document.getElementById('model-status');
         statusContainer.innerHTML = '<div class="loading"><div class="spinner"></div>Checking model availability...</div>';
 
         try {
-            const response = await fetch('/api/models/status');
+            const response = await apiFetch('/api/models/status');
             const data = await response.json();
             
             statusContainer.innerHTML = '';
@@ -117,9 +324,9 @@ class WorkflowApp {
         return card;
     }
 
-    async executeWorkflow() {
-        const form = document.getElementById('workflow-form');
-        const formData = new FormData(form);
+    // The execute request for the form's settings, or null without a research topic
+    buildPayload() {
+        const formData = new FormData(document.getElementById('workflow-form'));
         
         const researchTopic = formData.get('researchTopic');
         const provider = formData.get('provider');
@@ -127,14 +334,15 @@ class WorkflowApp {
         
         if (!researchTopic) {
             alert('Please enter a research topic');
-            return;
+            return null;
         }
 
-        this.setLoading(true);
-        this.showWorkflowProgress();
-        
-        const payload = {
+        return {
             researchTopic,
+            provider,
+            model,
+            cache: formData.get('cache'),
+            stepOverrides: this.collectStepOverrides(),
             modelConfigs: {
                 [provider]: {
                     baseUrl: this.getProviderBaseUrl(provider),
@@ -142,9 +350,19 @@ class WorkflowApp {
                 }
             }
         };
+    }
+
+    async executeWorkflow() {
+        const payload = this.buildPayload();
+        if (!payload) {
+            return;
+        }
+
+        this.setLoading(true);
+        this.showWorkflowProgress();
 
         try {
-            const response = await fetch('/api/workflows/execute', {
+            const response = await apiFetch('/api/workflows/execute', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(payload)
@@ -153,17 +371,405 @@ class WorkflowApp {
             const result = await response.json();
             
             if (result.success) {
-                this.displayResults(result.data);
+                this.currentExecution = result.runId;
+                this.streamRun(result.runId);
             } else {
                 this.displayError(result.error, result.step);
+                this.setLoading(false);
             }
         } catch (error) {
             this.displayError(error.message);
+            this.setLoading(false);
+        }
+    }
+
+    // Show what a run would do, without calling a model
+    async previewPlan() {
+        const payload = this.buildPayload();
+        if (!payload) {
+            return;
+        }
+
+        const { researchTopic, ...settings } = payload;
+        const button = document.getElementById('plan-btn');
+        button.disabled = true;
+
+        try {
+            const response = await apiFetch('/api/workflows/research-to-app-trial/plan', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...settings, inputs: { researchTopic } })
+            });
+            const plan = await response.json();
+
+            if (!response.ok) {
+                throw new Error([plan.error, ...(plan.details || [])].join('\n'));
+            }
+            this.displayPlan(plan);
+        } catch (error) {
+            alert(`Could not plan the run: ${error.message}`);
         } finally {
+            button.disabled = false;
+        }
+    }
+
+    displayPlan(plan) {
+        const section = document.getElementById('plan');
+        section.style.display = 'block';
+        section.classList.add('fade-in');
+
+        const { tokens, durationMs, cachedSteps, unestimated } = plan.estimate;
+        const partial = unestimated.length > 0 ? '+' : '';
+        document.getElementById('plan-tokens').textContent = `${tokens.toLocaleString()}${partial}`;
+        document.getElementById('plan-time').textContent = `${(durationMs / 1000).toFixed(1)}s${partial}`;
+        document.getElementById('plan-cached').textContent = `${cachedSteps} / ${plan.steps.length}`;
+
+        const problems = document.getElementById('plan-problems');
+        problems.replaceChildren();
+        if (plan.problems.length > 0) {
+            const message = document.createElement('div');
+            message.className = 'error-message';
+            const list = document.createElement('pre');
+            list.textContent = plan.problems.join('\n');
+            message.append('⚠️ This run would not start:', list);
+            problems.appendChild(message);
+        }
+
+        document.getElementById('plan-backends').replaceChildren(...plan.backends.map(backend => {
+            const item = document.createElement('span');
+            item.textContent = `${backend.status === 'online' ? '🟢' : '🔴'} ${backend.provider} (${backend.baseUrl})`;
+            item.title = backend.error || '';
+            return item;
+        }));
+
+        const steps = Object.fromEntries(plan.steps.map(step => [step.id, step]));
+        document.getElementById('plan-stages').replaceChildren(...plan.stages.map((ids, index) => {
+            const stage = document.createElement('div');
+            stage.className = 'plan-stage';
+            const heading = document.createElement('h3');
+            heading.textContent = `Stage ${index + 1}${ids.length > 1 ? ' · in parallel' : ''}`;
+            stage.appendChild(heading);
+            ids.forEach(id => stage.appendChild(this.createPlanStep(steps[id])));
+            return stage;
+        }));
+    }
+
+    createPlanStep(step) {
+        const card = document.createElement('div');
+        card.className = 'plan-step';
+        const line = (text, className = 'plan-detail') => {
+            const element = document.createElement('div');
+            element.className = className;
+            element.textContent = text;
+            card.appendChild(element);
+        };
+
+        line(STEP_NAMES[step.id] || step.id, 'step-name');
+
+        if (step.local) {
+            line(`🖥️ Runs locally (${step.type})`);
+        } else if (step.servedBy) {
+            line(`🤖 ${step.servedBy.provider}/${step.servedBy.model}`);
+            if (step.unavailable) {
+                line(`🔀 Fails over from ${step.provider}/${step.model}`, 'plan-warning');
+            }
+        } else {
+            card.classList.add('unavailable');
+            line(`❌ ${(step.unavailable || ['No backend serves this step']).join('; ')}`, 'plan-warning');
+        }
+
+        const cacheLabels = {
+            hit: '⚡ Cached response',
+            miss: '🆕 Not cached',
+            unknown: '❔ Cache depends on upstream output',
+            off: '🚫 Cache off'
+        };
+        if (step.cache) {
+            line(cacheLabels[step.cache]);
+        }
+
+        if (step.estimate) {
+            const { promptTokens, completionTokens, durationMs, samples } = step.estimate;
+            line(`⏱️ ~${(promptTokens + completionTokens).toLocaleString()} tokens, ${(durationMs / 1000).toFixed(1)}s (${samples} earlier run${samples === 1 ? '' : 's'})`);
+        } else {
+            line('⏱️ No earlier runs to estimate from');
+        }
+
+        if (step.overBudget) {
+            line(`✂️ Prompt exceeds the ${step.contextLength.toLocaleString()}-token context window and will be compressed`, 'plan-warning');
+        }
+
+        if (step.prompt) {
+            const preview = document.createElement('details');
+            const summary = document.createElement('summary');
+            summary.textContent = `Prompt (~${step.promptTokens.toLocaleString()} tokens${step.promptComplete ? '' : ', upstream outputs pending'})`;
+            const text = document.createElement('div');
+            text.className = 'step-preview';
+            text.textContent = step.prompt;
+            preview.append(summary, text);
+            card.appendChild(preview);
+        }
+
+        return card;
+    }
+
+    async streamRun(runId) {
+        this.lastRunId = runId;
+
+        try {
+            const response = await apiFetch(`/api/runs/${runId}`);
+            const run = await response.json();
+
+            if (!response.ok) {
+                throw new Error(run.error);
+            }
+
+            this.renderPipeline(run);
+        } catch (error) {
+            this.displayError(error.message);
+            this.setLoading(false);
+            return;
+        }
+
+        const handlers = {
+            'step-started': (event) => this.updateStep(event.stepId, 'running'),
+            'step-queued': (event) => this.showQueuePosition(event.stepId, event),
+            'step-delta': (event) => this.appendStepOutput(event.stepId, event.delta),
+            'step-completed': (event) => this.updateStep(event.stepId, 'completed', event),
+            'step-failed': (event) => this.updateStep(event.stepId, 'failed', event),
+            'run-finished': (event) => this.finishRun(event)
+        };
+
+        try {
+            await readEventStream(`/api/runs/${runId}/events`, (type, data) => handlers[type]?.(JSON.parse(data)));
+        } catch (error) {
+            this.displayError(error.message);
             this.setLoading(false);
         }
     }
 
+    async finishRun(event) {
+        try {
+            if (event.status === 'completed') {
+                const response = await apiFetch(`/api/runs/${event.runId}`);
+                this.displayResults(await response.json());
+            } else if (event.status === 'cancelled') {
+                this.displayError('Run was cancelled');
+            } else {
+                this.displayError(event.error?.message, event.error?.step);
+            }
+        } catch (error) {
+            this.displayError(error.message);
+        }
+
+        this.updateProgress(event.status);
+        this.currentExecution = null;
+        this.setLoading(false);
+        this.loadHistory();
+    }
+
+    async resumeRun(runId, step, overrideModel) {
+        const form = new FormData(document.getElementById('workflow-form'));
+        const provider = form.get('provider');
+        const payload = overrideModel
+            ? {
+                step,
+                provider,
+                model: form.get('model'),
+                modelConfigs: {
+                    [provider]: {
+                        baseUrl: this.getProviderBaseUrl(provider),
+                        apiKey: 'not-required'
+                    }
+                }
+            }
+            : {};
+
+        try {
+            const response = await apiFetch(`/api/runs/${runId}/resume`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload)
+            });
+            const result = await response.json();
+
+            if (!result.success) {
+                throw new Error(result.error);
+            }
+
+            this.setLoading(true);
+            this.showWorkflowProgress();
+            this.currentExecution = result.runId;
+            this.streamRun(result.runId);
+        } catch (error) {
+            alert(`Failed to resume run: ${error.message}`);
+        }
+    }
+
+    async loadHistory() {
+        const historyList = document.getElementById('history-list');
+        const query = document.getElementById('history-search').value.trim();
+
+        try {
+            const response = await apiFetch(`/api/runs?limit=50${query ? `&q=${encodeURIComponent(query)}` : ''}`);
+            const data = await response.json();
+
+            historyList.innerHTML = '';
+            if (data.runs.length === 0) {
+                historyList.innerHTML = '<div class="loading">No runs yet</div>';
+            }
+            data.runs.forEach(run => historyList.appendChild(this.createHistoryRow(run)));
+            this.updateCompareButton();
+        } catch (error) {
+            historyList.innerHTML = '<div class="error">Failed to load run history</div>';
+        }
+    }
+
+    createHistoryRow(run) {
+        const row = document.createElement('div');
+        row.className = 'history-row';
+
+        const select = document.createElement('input');
+        select.type = 'checkbox';
+        select.value = run.id;
+        select.addEventListener('change', () => this.updateCompareButton());
+
+        const topic = document.createElement('div');
+        topic.className = 'history-topic';
+        topic.textContent = run.researchTopic || run.workflowId;
+
+        const meta = document.createElement('div');
+        meta.className = 'history-meta';
+        meta.textContent = new Date(run.createdAt).toLocaleString();
+
+        const status = document.createElement('span');
+        status.className = `history-status ${run.status}`;
+        status.textContent = run.status;
+
+        const openButton = document.createElement('button');
+        openButton.className = 'btn btn-secondary btn-small';
+        openButton.textContent = 'Open';
+        openButton.addEventListener('click', () => this.openRun(run.id));
+
+        const deleteButton = document.createElement('button');
+        deleteButton.className = 'btn btn-secondary btn-small';
+        deleteButton.textContent = 'Delete';
+        deleteButton.disabled = run.status === 'running';
+        deleteButton.addEventListener('click', () => this.deleteRun(run.id));
+
+        row.append(select, topic, meta, status, openButton, deleteButton);
+        return row;
+    }
+
+    selectedRunIds() {
+        return [...document.querySelectorAll('#history-list input[type="checkbox"]:checked')].map(box => box.value);
+    }
+
+    updateCompareButton() {
+        document.getElementById('compare-btn').disabled = this.selectedRunIds().length !== 2;
+    }
+
+    async openRun(runId) {
+        try {
+            const response = await apiFetch(`/api/runs/${runId}`);
+            const run = await response.json();
+
+            if (!response.ok) {
+                throw new Error(run.error);
+            }
+
+            this.showWorkflowProgress();
+            if (run.status === 'running') {
+                this.currentExecution = run.id;
+                this.setLoading(true);
+                this.streamRun(run.id);
+                return;
+            }
+
+            this.lastRunId = run.id;
+            this.renderPipeline(run);
+            this.updateProgress(run.status);
+            if (run.status === 'completed') {
+                this.displayResults(run);
+            } else {
+                this.displayError(run.error?.message || `Run ${run.status}`, run.error?.step);
+            }
+        } catch (error) {
+            this.displayError(error.message);
+        }
+    }
+
+    async deleteRun(runId) {
+        if (!confirm('Delete this run from history?')) {
+            return;
+        }
+
+        try {
+            const response = await apiFetch(`/api/runs/${runId}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error);
+            }
+            this.loadHistory();
+        } catch (error) {
+            alert(`Failed to delete run: ${error.message}`);
+        }
+    }
+
+    async compareRuns() {
+        const compareView = document.getElementById('history-compare');
+        const runs = await Promise.all(
+            this.selectedRunIds().map(id => apiFetch(`/api/runs/${id}`).then(response => response.json()))
+        );
+
+        const table = document.createElement('table');
+        table.className = 'compare-table';
+
+        const header = table.insertRow();
+        header.insertCell().textContent = 'Step';
+        runs.forEach(run => {
+            header.insertCell().textContent = `${run.inputs.researchTopic || run.workflowId} (${run.status})`;
+        });
+
+        const stepIds = [...new Set(runs.flatMap(run => run.steps.map(step => step.id)))];
+        stepIds.forEach(stepId => {
+            const row = table.insertRow();
+            row.insertCell().textContent = STEP_NAMES[stepId] || stepId;
+
+            runs.forEach(run => {
+                const step = run.steps.find(candidate => candidate.id === stepId);
+                const cell = row.insertCell();
+                const output = document.createElement('pre');
+                output.className = 'step-preview';
+                output.textContent = step?.output === undefined
+                    ? step?.error || step?.status || '—'
+                    : (typeof step.output === 'string' ? step.output : JSON.stringify(step.output, null, 2));
+                cell.appendChild(output);
+                if (step?.usage) {
+                    const usage = document.createElement('div');
+                    usage.className = 'step-usage';
+                    usage.textContent = `${step.usage.total_tokens} tokens`;
+                    cell.appendChild(usage);
+                }
+            });
+        });
+
+        compareView.replaceChildren(table);
+        compareView.style.display = 'block';
+    }
+
+    async cancelRun() {
+        if (!this.currentExecution) {
+            return;
+        }
+
+        try {
+            await apiFetch(`/api/runs/${this.currentExecution}/cancel`, { method: 'POST' });
+        } catch (error) {
+            this.displayError(error.message);
+        }
+    }
+
     getProviderBaseUrl(provider) {
         const baseUrls = {
             ollama: 'http://localhost:11434',
@@ -181,6 +787,8 @@ class WorkflowApp {
         button.disabled = loading;
         btnText.style.display = loading ? 'none' : 'inline';
         btnLoading.style.display = loading ? 'inline' : 'none';
+
+        document.getElementById('cancel-btn').style.display = loading ? 'inline-flex' : 'none';
     }
 
     showWorkflowProgress() {
@@ -190,86 +798,186 @@ class WorkflowApp {
         
         const stepResults = document.getElementById('step-results');
         stepResults.innerHTML = '';
-        
-        // Simulate step progress (in real implementation, this would use WebSocket or SSE)
-        this.simulateWorkflowProgress();
-    }
-
-    simulateWorkflowProgress() {
-        const steps = [
-            'analyze-research-topic',
-            'design-architecture', 
-            'generate-project-structure',
-            'create-core-components',
-            'setup-testing',
-            'create-documentation',
-            'setup-deployment',
-            'quality-assurance'
-        ];
-
-        const stepNames = {
-            'analyze-research-topic': '🔍 Analyzing Research Topic',
-            'design-architecture': '🏗️ Designing Architecture',
-            'generate-project-structure': '📁 Generating Project Structure',
-            'create-core-components': '💻 Creating Core Components',
-            'setup-testing': '🧪 Setting Up Testing',
-            'create-documentation': '📚 Creating Documentation',
-            'setup-deployment': '🚀 Setting Up Deployment',
-            'quality-assurance': '✅ Quality Assurance'
-        };
 
-        let currentStep = 0;
-        const progressFill = document.getElementById('progress-fill');
-        const progressText = document.getElementById('progress-text');
-        const stepResults = document.getElementById('step-results');
+        document.getElementById('progress-fill').style.width = '0%';
+        document.getElementById('progress-text').textContent = 'Starting workflow...';
+    }
 
-        const interval = setInterval(() => {
-            if (currentStep >= steps.length) {
-                clearInterval(interval);
-                progressText.textContent = '✅ Workflow completed!';
-                progressFill.style.width = '100%';
-                return;
-            }
+    renderPipeline(run) {
+        const stepResults = document.getElementById('step-results');
+        stepResults.innerHTML = '';
+        this.stepProgress = {};
 
-            const stepId = steps[currentStep];
-            const stepName = stepNames[stepId];
-            
-            // Update progress bar
-            const progress = ((currentStep + 1) / steps.length) * 100;
-            progressFill.style.width = `${progress}%`;
-            progressText.textContent = stepName;
-            
-            // Add step result
+        run.steps.forEach(step => {
             const stepResult = document.createElement('div');
-            stepResult.className = 'step-result completed';
+            stepResult.id = `step-${step.id}`;
             stepResult.innerHTML = `
                 <div class="step-name">
-                    ${stepName}
-                    <span class="step-status completed">✅</span>
+                    ${escapeHtml(STEP_NAMES[step.id] || step.id)}
+                    <span class="step-status"></span>
                 </div>
+                <div class="step-details"></div>
             `;
             stepResults.appendChild(stepResult);
-            
-            currentStep++;
-        }, 2000); // 2 seconds per step for demo
+            this.updateStep(step.id, step.status, { usage: step.usage, cache: step.metadata?.cache });
+            if (step.queue) {
+                this.showQueuePosition(step.id, step.queue);
+            }
+        });
+    }
+
+    showQueuePosition(stepId, queue) {
+        const stepDetails = document.querySelector(`#step-${CSS.escape(stepId)} .step-details`);
+        if (!stepDetails) {
+            return;
+        }
+
+        let notice = stepDetails.querySelector('.step-queue');
+        if (!notice) {
+            notice = document.createElement('div');
+            notice.className = 'step-queue';
+            stepDetails.prepend(notice);
+        }
+        notice.textContent = `🕒 Waiting for ${queue.backend.split('|')[0]} (position ${queue.position} in queue)`;
+    }
+
+    updateStep(stepId, status, details = {}) {
+        const stepResult = document.getElementById(`step-${stepId}`);
+        if (!stepResult) {
+            return;
+        }
+
+        const statusClasses = { running: 'active', completed: 'completed', failed: 'error' };
+        const statusIcons = { pending: '⏸️', running: '⏳', completed: '✅', failed: '❌', skipped: '⏭️' };
+
+        this.stepProgress[stepId] = status;
+        stepResult.className = `step-result ${statusClasses[status] || ''}`;
+
+        const statusBadge = stepResult.querySelector('.step-status');
+        statusBadge.className = `step-status ${statusClasses[status] || ''}`;
+        statusBadge.textContent = statusIcons[status] || status;
+
+        const stepDetails = stepResult.querySelector('.step-details');
+        if (details.usage) {
+            const usage = document.createElement('div');
+            usage.className = 'step-usage';
+            usage.textContent = `${details.usage.prompt_tokens} prompt + ${details.usage.completion_tokens} completion tokens`;
+            if (details.cache?.hits) {
+                usage.textContent += ` · ${details.cache.hits} cached`;
+            }
+            if (details.usage.cached) {
+                usage.textContent += ` (${details.usage.cached.total_tokens} tokens from cache)`;
+            }
+            stepDetails.replaceChildren(usage);
+        }
+        if (details.outputPreview) {
+            const preview = document.createElement('pre');
+            preview.className = 'step-preview';
+            preview.textContent = details.outputPreview;
+            stepDetails.appendChild(preview);
+        }
+        if (details.error) {
+            const error = document.createElement('pre');
+            error.className = 'step-preview';
+            error.textContent = details.error;
+            stepDetails.replaceChildren(error);
+        }
+
+        this.updateProgress();
+    }
+
+    appendStepOutput(stepId, delta) {
+        const stepDetails = document.querySelector(`#step-${CSS.escape(stepId)} .step-details`);
+        if (!stepDetails) {
+            return;
+        }
+
+        stepDetails.querySelector('.step-queue')?.remove();
+
+        let live = stepDetails.querySelector('.step-preview.live');
+        if (!live) {
+            live = document.createElement('pre');
+            live.className = 'step-preview live';
+            stepDetails.replaceChildren(live);
+        }
+
+        // Keep only the tail so long generations don't grow the DOM without bound
+        live.textContent = (live.textContent + delta).slice(-600);
+        live.scrollTop = live.scrollHeight;
+    }
+
+    updateProgress(runStatus) {
+        const progressFill = document.getElementById('progress-fill');
+        const progressText = document.getElementById('progress-text');
+
+        const statuses = Object.entries(this.stepProgress);
+        const completed = statuses.filter(([, status]) => status === 'completed').length;
+        const running = statuses.filter(([, status]) => status === 'running').map(([id]) => STEP_NAMES[id] || id);
+
+        progressFill.style.width = `${(completed / Math.max(statuses.length, 1)) * 100}%`;
+
+        if (runStatus === 'completed') {
+            progressText.textContent = '✅ Workflow completed!';
+        } else if (runStatus) {
+            progressText.textContent = `Run ${runStatus}`;
+        } else if (running.length > 0) {
+            progressText.textContent = running.join(' · ');
+        }
     }
 
     displayResults(data) {
         const resultsSection = document.getElementById('results');
         resultsSection.style.display = 'block';
         resultsSection.classList.add('fade-in');
+
+        document.getElementById('run-error').innerHTML = '';
+        document.getElementById('results-body').style.display = 'block';
         
         // Update metrics
         document.getElementById('execution-time').textContent = 
             `${(data.metadata.duration / 1000).toFixed(2)}s`;
         document.getElementById('steps-completed').textContent = 
             data.metadata.stepsExecuted;
+        const cache = data.metadata.cache;
+        document.getElementById('cache-hits').textContent = cache && cache.mode !== 'off'
+            ? `${cache.hits} / ${cache.hits + cache.misses} calls`
+            : '-';
         
+        this.populateRunStats(data.steps);
+
         // Populate tab content
         this.populateArchitectureTab(data.outputs);
         this.populateCodeTab(data.outputs);
         this.populateDocumentationTab(data.outputs);
         this.populateDeploymentTab(data.outputs);
+        this.populateFilesTab(data.id);
+    }
+
+    // One row per model step, so models can be compared step by step across runs
+    populateRunStats(steps) {
+        const seconds = (ms) => (ms === undefined ? '—' : `${(ms / 1000).toFixed(2)}s`);
+        const rows = steps.filter(step => step.usage || step.metadata?.calls).map(step => {
+            const { servedBy, calls, cache, queueWaitMs, reusedFrom, contextBudget } = step.metadata || {};
+            const row = document.createElement('tr');
+            const model = servedBy ? `${servedBy.provider}/${servedBy.model}` : '—';
+            const note = (reusedFrom ? ' (reused)' : cache?.hits && !calls ? ' (cached)' : '')
+                + (contextBudget?.parts ? ` (${contextBudget.parts} parts)` : contextBudget ? ' (compressed)' : '');
+            [
+                STEP_NAMES[step.id] || step.id,
+                model + note,
+                step.usage?.prompt_tokens ?? '—',
+                step.usage?.completion_tokens ?? '—',
+                seconds(calls?.timeToFirstTokenMs),
+                calls?.tokensPerSecond ?? '—',
+                seconds(queueWaitMs || 0),
+                seconds(calls?.latencyMs)
+            ].forEach(value => {
+                row.insertCell().textContent = value;
+            });
+            return row;
+        });
+
+        document.getElementById('run-stats-body').replaceChildren(...rows);
     }
 
     populateArchitectureTab(outputs) {
@@ -279,7 +987,7 @@ class WorkflowApp {
         if (designOutput) {
             architectureTab.innerHTML = `
                 <div class="code-block">
-                    <pre><code class="language-json">${JSON.stringify(JSON.parse(designOutput), null, 2)}</code></pre>
+                    <pre><code class="language-json">${escapeHtml(JSON.stringify(typeof designOutput === 'string' ? JSON.parse(designOutput) : designOutput, null, 2))}</code></pre>
                 </div>
             `;
         }
@@ -293,12 +1001,12 @@ class WorkflowApp {
         let content = '';
         if (projectOutput) {
             content += '<h3>📁 Project Structure</h3>';
-            content += `<div class="code-block"><pre><code>${projectOutput}</code></pre></div>`;
+            content += `<div class="code-block"><pre><code>${escapeHtml(projectOutput)}</code></pre></div>`;
         }
         
         if (componentsOutput) {
             content += '<h3>💻 Core Components</h3>';
-            content += `<div class="code-block"><pre><code class="language-typescript">${componentsOutput}</code></pre></div>`;
+            content += `<div class="code-block"><pre><code class="language-typescript">${escapeHtml(componentsOutput)}</code></pre></div>`;
         }
         
         codeTab.innerHTML = content;
@@ -311,7 +1019,7 @@ class WorkflowApp {
         if (docOutput) {
             docTab.innerHTML = `
                 <div class="code-block">
-                    <pre><code>${docOutput}</code></pre>
+                    <pre><code>${escapeHtml(docOutput)}</code></pre>
                 </div>
             `;
         }
@@ -324,9 +1032,94 @@ class WorkflowApp {
         if (deployOutput) {
             deployTab.innerHTML = `
                 <div class="code-block">
-                    <pre><code class="language-yaml">${deployOutput}</code></pre>
+                    <pre><code class="language-yaml">${escapeHtml(deployOutput)}</code></pre>
+                </div>
+            `;
+        }
+    }
+
+    async populateFilesTab(runId) {
+        const filesTab = document.getElementById('files-tab');
+        filesTab.innerHTML = '<div class="loading"><div class="spinner"></div>Extracting project files...</div>';
+
+        try {
+            const response = await apiFetch(`/api/runs/${runId}/artifact`);
+            const project = await response.json();
+
+            if (!response.ok) {
+                throw new Error(project.error);
+            }
+
+            if (project.files.length === 0) {
+                filesTab.innerHTML = '<div class="loading">No files could be extracted from this run</div>';
+                return;
+            }
+
+            filesTab.innerHTML = `
+                <div class="files-toolbar">
+                    <span>${project.files.length} files</span>
+                    <button type="button" class="btn btn-primary btn-small download-zip">⬇️ Download .zip</button>
+                </div>
+                <div class="files-warnings"></div>
+                <div class="file-browser">
+                    <ul class="file-list"></ul>
+                    <div class="file-viewer code-block"><pre><code></code></pre></div>
                 </div>
             `;
+
+            filesTab.querySelector('.download-zip').addEventListener('click', () => {
+                downloadFile(`/api/runs/${runId}/artifact.zip`, `run-${runId}.zip`)
+                    .catch(error => this.displayError(error.message));
+            });
+
+            const warnings = filesTab.querySelector('.files-warnings');
+            project.conflicts.forEach(conflict => {
+                const warning = document.createElement('div');
+                warning.className = 'file-warning';
+                warning.textContent = `⚠️ ${conflict.path} was generated by ${conflict.steps.join(', ')}; keeping the ${conflict.steps[conflict.steps.length - 1]} version`;
+                warnings.appendChild(warning);
+            });
+            if (project.unassigned.length > 0) {
+                const warning = document.createElement('div');
+                warning.className = 'file-warning';
+                warning.textContent = `ℹ️ ${project.unassigned.length} code blocks had no filename and were left out`;
+                warnings.appendChild(warning);
+            }
+
+            const fileList = filesTab.querySelector('.file-list');
+            project.files.forEach((file, index) => {
+                const item = document.createElement('li');
+                item.textContent = file.path;
+                item.title = `from ${file.step}`;
+                item.addEventListener('click', () => {
+                    fileList.querySelectorAll('li').forEach(li => li.classList.remove('active'));
+                    item.classList.add('active');
+                    this.showFile(file);
+                });
+                fileList.appendChild(item);
+                if (index === 0) {
+                    item.click();
+                }
+            });
+        } catch (error) {
+            filesTab.innerHTML = `<div class="error">Failed to extract files: ${escapeHtml(error.message)}</div>`;
+        }
+    }
+
+    showFile(file) {
+        const languages = {
+            ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+            json: 'json', yml: 'yaml', yaml: 'yaml', sh: 'bash', md: 'markdown', html: 'markup', css: 'css'
+        };
+        const extension = file.path.split('.').pop().toLowerCase();
+        const basename = file.path.split('/').pop();
+        const language = basename === 'Dockerfile' ? 'docker' : (languages[extension] || 'none');
+
+        const code = document.querySelector('#files-tab .file-viewer code');
+        code.className = `language-${language}`;
+        code.textContent = file.content;
+        if (window.Prism) {
+            Prism.highlightElement(code);
         }
     }
 
@@ -339,12 +1132,32 @@ class WorkflowApp {
             errorMessage += `\n💥 Failed at step: ${step}`;
         }
         
-        resultsSection.innerHTML = `
+        document.getElementById('results-body').style.display = 'none';
+        const runError = document.getElementById('run-error');
+        runError.innerHTML = `
             <div class="error-message">
                 <h3>❌ Execution Failed</h3>
-                <pre>${errorMessage}</pre>
+                <pre>${escapeHtml(errorMessage)}</pre>
             </div>
         `;
+
+        if (step && this.lastRunId) {
+            const resumeControls = document.createElement('div');
+            resumeControls.className = 'resume-controls';
+            resumeControls.innerHTML = `
+                <label><input type="checkbox" id="resume-override"> Retry ${escapeHtml(step)} with the model selected above</label>
+            `;
+
+            const resumeButton = document.createElement('button');
+            resumeButton.className = 'btn btn-primary';
+            resumeButton.textContent = `🔁 Resume from ${STEP_NAMES[step] || step}`;
+            resumeButton.addEventListener('click', () => {
+                this.resumeRun(this.lastRunId, step, document.getElementById('resume-override').checked);
+            });
+
+            resumeControls.appendChild(resumeButton);
+            runError.appendChild(resumeControls);
+        }
     }
 
     switchTab(tabName) {
@@ -0,0 +1,235 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMCallOptions, LLMRawResponse } from 'bilko-flow';
+import type { JsonSchema } from '../flows/schema';
+import { llmCachedTokens, llmCacheLookups } from '../metrics';
+import { ModelProvider } from '../models/registry';
+import { getStepContext, recordUsage } from '../runs/context';
+import { LLMAdapter } from './router';
+
+// 'use' reads and writes the cache, 'refresh' skips reads but stores fresh responses, 'off' bypasses it
+export const CACHE_MODES = ['use', 'refresh', 'off'] as const;
+
+export type CacheMode = typeof CACHE_MODES[number];
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  key: Record<string, unknown>;
+  response: LLMRawResponse;
+  createdAt: string;
+}
+
+// A step's prompt and settings, all a plan knows before bilko-flow builds the request
+export interface PromptLookup {
+  model: string;
+  mode: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseSchema?: JsonSchema;
+}
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+const HASH_PATTERN = /^[0-9a-f]{64}\.json$/;
+// Maps prompt hashes to response hashes
+const PROMPT_INDEX = 'prompts';
+
+export function isCacheMode(mode: unknown): mode is CacheMode {
+  return typeof mode === 'string' && (CACHE_MODES as readonly string[]).includes(mode);
+}
+
+// LLM responses on disk, one JSON file per content hash; the least recently used entries
+// are evicted once the directory grows past maxBytes
+export class ResponseCache {
+  private sizeBytes?: number;
+  private eviction = Promise.resolve();
+
+  constructor(private readonly directory: string, private readonly maxBytes = DEFAULT_MAX_BYTES) {}
+
+  // Everything that changes what the model would generate: the served backend and model,
+  // the fully rendered messages and the sampling and output-format settings
+  static key(provider: ModelProvider, options: LLMCallOptions): Record<string, unknown> {
+    const context = getStepContext();
+    return {
+      provider,
+      model: options.model,
+      mode: context?.providerOptions?.[provider]?.mode ?? 'chat',
+      messages: options.messages,
+      temperature: options.temperature ?? null,
+      maxTokens: options.maxTokens ?? null,
+      responseFormat: options.responseFormat ?? null,
+      responseSchema: context?.responseSchema ?? null,
+    };
+  }
+
+  static hash(key: Record<string, unknown>): string {
+    return createHash('sha256').update(JSON.stringify(key)).digest('hex');
+  }
+
+  // The step prompt is the last message bilko-flow sends
+  static promptKey(provider: ModelProvider, lookup: PromptLookup): Record<string, unknown> {
+    return {
+      provider,
+      model: lookup.model,
+      mode: lookup.mode,
+      prompt: lookup.prompt,
+      temperature: lookup.temperature ?? null,
+      maxTokens: lookup.maxTokens ?? null,
+      responseSchema: lookup.responseSchema ?? null,
+    };
+  }
+
+  // Record which response a prompt produced, so a plan can predict hits without a request
+  async index(promptHash: string, hash: string): Promise<void> {
+    const directory = path.join(this.directory, PROMPT_INDEX);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, promptHash), hash);
+  }
+
+  // The cached response for a prompt, without touching its eviction order. Index entries
+  // left behind by evicted responses are removed.
+  async lookup(promptHash: string): Promise<LLMRawResponse | undefined> {
+    const indexFile = path.join(this.directory, PROMPT_INDEX, promptHash);
+    let hash: string;
+    try {
+      hash = (await fs.readFile(indexFile, 'utf8')).trim();
+    } catch {
+      return undefined;
+    }
+
+    try {
+      return (JSON.parse(await fs.readFile(path.join(this.directory, `${hash}.json`), 'utf8')) as CacheEntry).response;
+    } catch {
+      await fs.unlink(indexFile).catch(() => undefined);
+      return undefined;
+    }
+  }
+
+  async get(hash: string): Promise<LLMRawResponse | undefined> {
+    const file = path.join(this.directory, `${hash}.json`);
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+      // Touch the entry so eviction treats it as recently used
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return entry.response;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Ignoring unreadable cache entry ${hash}:`, error instanceof Error ? error.message : error);
+      }
+      return undefined;
+    }
+  }
+
+  async set(hash: string, key: Record<string, unknown>, response: LLMRawResponse): Promise<void> {
+    const entry: CacheEntry = { key, response, createdAt: new Date().toISOString() };
+    const snapshot = JSON.stringify(entry);
+    const target = path.join(this.directory, `${hash}.json`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${target}.tmp`, snapshot);
+    await fs.rename(`${target}.tmp`, target);
+
+    this.eviction = this.eviction.then(() => this.evict(Buffer.byteLength(snapshot))).catch((error) => {
+      console.warn('⚠️ Response cache eviction failed:', error instanceof Error ? error.message : error);
+    });
+    await this.eviction;
+  }
+
+  private async entries(): Promise<{ file: string; size: number; usedAt: number }[]> {
+    const files = (await fs.readdir(this.directory)).filter((file) => HASH_PATTERN.test(file));
+    const entries = await Promise.all(files.map(async (file) => {
+      const stat = await fs.stat(path.join(this.directory, file)).catch(() => undefined);
+      return stat && { file, size: stat.size, usedAt: stat.mtimeMs };
+    }));
+    return entries.filter((entry): entry is NonNullable<typeof entry> => entry !== undefined);
+  }
+
+  // The directory is only scanned on the first write and when it is over the limit
+  private async evict(addedBytes: number): Promise<void> {
+    if (this.sizeBytes === undefined) {
+      this.sizeBytes = (await this.entries()).reduce((total, entry) => total + entry.size, 0);
+    } else {
+      this.sizeBytes += addedBytes;
+    }
+    if (this.sizeBytes <= this.maxBytes) {
+      return;
+    }
+
+    const entries = (await this.entries()).sort((a, b) => a.usedAt - b.usedAt);
+    let size = entries.reduce((total, entry) => total + entry.size, 0);
+    for (const entry of entries) {
+      if (size <= this.maxBytes) {
+        break;
+      }
+      await fs.unlink(path.join(this.directory, entry.file)).catch(() => undefined);
+      size -= entry.size;
+    }
+    this.sizeBytes = size;
+  }
+}
+
+export const responseCache = new ResponseCache(
+  process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), 'data', 'cache'),
+  Number(process.env.RESPONSE_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES
+);
+
+// Serve repeated calls from the cache according to the calling run's cache mode.
+// A hit skips the backend queue entirely and replays the text as one streamed chunk.
+export function withResponseCache(provider: ModelProvider, adapter: LLMAdapter): LLMAdapter {
+  return async (options) => {
+    const context = getStepContext();
+    const mode = context?.cacheMode ?? 'use';
+    if (mode === 'off') {
+      return adapter(options);
+    }
+
+    const key = ResponseCache.key(provider, options);
+    const hash = ResponseCache.hash(key);
+    const promptHash = ResponseCache.hash(ResponseCache.promptKey(provider, {
+      model: options.model,
+      mode: key.mode as string,
+      prompt: options.messages[options.messages.length - 1]?.content ?? '',
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      responseSchema: context?.responseSchema,
+    }));
+    const index = () => responseCache.index(promptHash, hash).catch((error) => {
+      console.warn('⚠️ Could not index cached response:', error instanceof Error ? error.message : error);
+    });
+
+    if (mode === 'use') {
+      const cached = await responseCache.get(hash);
+      const labels = { provider, model: options.model, step: context?.stepId ?? 'unknown' };
+      llmCacheLookups.inc({ ...labels, result: cached ? 'hit' : 'miss' });
+      if (cached) {
+        await index();
+        if (context?.cacheStats) {
+          context.cacheStats.hits++;
+        }
+        // The backend wrappers never see a hit, so its usage and metrics are recorded here
+        recordUsage(cached.usage, true);
+        llmCachedTokens.inc({ ...labels, kind: 'prompt' }, cached.usage?.prompt_tokens || 0);
+        llmCachedTokens.inc({ ...labels, kind: 'completion' }, cached.usage?.completion_tokens || 0);
+        if (cached.content) {
+          context?.onToken?.(cached.content);
+        }
+        return cached;
+      }
+    }
+
+    if (context?.cacheStats) {
+      context.cacheStats.misses++;
+    }
+    const response = await adapter(options);
+    await responseCache.set(hash, key, response).then(index, (error) => {
+      console.warn('⚠️ Could not cache response:', error instanceof Error ? error.message : error);
+    });
+    return response;
+  };
+}
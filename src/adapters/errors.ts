@@ -0,0 +1,21 @@
+// Failure classes the routing adapter uses to decide whether another backend is worth trying:
+// 'connection' (refused, reset, timed out), 'http' (non-2xx status) or 'malformed' (unusable body)
+export type BackendErrorKind = 'connection' | 'http' | 'malformed';
+
+export class BackendError extends Error {
+  constructor(message: string, public readonly kind: BackendErrorKind, public readonly status?: number) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+// Prefix an adapter failure with the backend name, keeping its class. Anything that isn't
+// already a BackendError is a fetch/stream failure (connection) or an unparseable body.
+export function backendFailure(backend: string, error: unknown): BackendError {
+  const message = `${backend} adapter failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+  if (error instanceof BackendError) {
+    return new BackendError(message, error.kind, error.status);
+  }
+  return new BackendError(message, error instanceof SyntaxError ? 'malformed' : 'connection');
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMRawResponse } from 'bilko-flow';
+import { ModelProvider } from '../models/registry';
+import { getStepContext } from '../runs/context';
+import { ResponseCache } from './cache';
+import { BackendError } from './errors';
+import { LLMAdapter } from './router';
+
+// 'record' saves every backend response as a fixture file; 'replay' answers from those files
+// and never calls the backend. Unset, adapters talk to the backend as usual.
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureSettings {
+  mode?: FixtureMode;
+  directory: string;
+}
+
+interface Fixture {
+  stepId?: string;
+  request: Record<string, unknown>;
+  response: LLMRawResponse;
+  recordedAt: string;
+}
+
+function settingsFromEnv(): FixtureSettings {
+  const mode = process.env.LLM_FIXTURES;
+  return {
+    mode: mode === 'record' || mode === 'replay' ? mode : undefined,
+    directory: process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm'),
+  };
+}
+
+let settings = settingsFromEnv();
+
+// Switch mode or directory at runtime, e.g. from a test's setup; omitted fields keep their value
+export function configureFixtures(next: Partial<FixtureSettings>): FixtureSettings {
+  settings = { ...settings, ...next };
+  return settings;
+}
+
+// Fixtures are grouped by step and named by the same request hash as the response cache,
+// so a recording is replayed exactly when the rendered prompt and sampling settings match
+function fixturePath(hash: string): string {
+  const stepId = getStepContext()?.stepId ?? 'unscoped';
+  return path.join(settings.directory, stepId.replace(/[^\w.-]/g, '_'), `${hash}.json`);
+}
+
+async function readFixture(file: string): Promise<Fixture | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as Fixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(file: string, fixture: Fixture): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, `${JSON.stringify(fixture, null, 2)}\n`);
+  await fs.rename(`${file}.tmp`, file);
+}
+
+// Record or replay the calls made through one backend's adapter
+export function withFixtures(provider: ModelProvider, adapter: LLMAdapter): LLMAdapter {
+  return async (options) => {
+    const { mode } = settings;
+    if (!mode) {
+      return adapter(options);
+    }
+
+    const context = getStepContext();
+    const request = ResponseCache.key(provider, options);
+    const file = fixturePath(ResponseCache.hash(request));
+
+    if (mode === 'replay') {
+      const fixture = await readFixture(file);
+      if (!fixture) {
+        // A 404 lets the router try the candidate the recording actually failed over to
+        throw new BackendError(
+          `No recorded fixture for ${provider}/${options.model} at ${path.relative(process.cwd(), file)}`,
+          'http',
+          404
+        );
+      }
+      if (fixture.response.content) {
+        context?.onToken?.(fixture.response.content);
+      }
+      return fixture.response;
+    }
+
+    const response = await adapter(options);
+    await writeFixture(file, {
+      stepId: context?.stepId,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  };
+}
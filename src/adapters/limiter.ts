@@ -0,0 +1,191 @@
+import { WorkflowDefinition } from 'bilko-flow';
+import { baseUrlFor, isModelProvider, ModelProvider } from '../models/registry';
+import { getStepContext } from '../runs/context';
+import { llmQueueWait } from '../metrics';
+import { BackendError } from './errors';
+import { LLMAdapter } from './router';
+
+export interface LimiterStats {
+  backend: string;
+  active: number;
+  queued: number;
+  maxInFlight: number;
+  maxQueue: number;
+}
+
+interface Waiter {
+  admit: () => void;
+  onPosition?: (position: number) => void;
+}
+
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// <PROVIDER>_MAX_IN_FLIGHT / <PROVIDER>_MAX_QUEUE override BACKEND_MAX_IN_FLIGHT / BACKEND_MAX_QUEUE
+function limitSetting(provider: ModelProvider, name: string, fallback: number): number {
+  const value = Number(process.env[`${provider.toUpperCase()}_${name}`] || process.env[`BACKEND_${name}`]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Caps in-flight requests to one backend; callers beyond the cap wait in a single FIFO queue
+// shared by every run, and are turned away once the queue is full
+export class BackendLimiter {
+  private active = 0;
+  private queue: Waiter[] = [];
+  private averageDurationMs?: number;
+
+  constructor(
+    readonly backend: string,
+    readonly maxInFlight: number,
+    readonly maxQueue: number
+  ) {}
+
+  get full(): boolean {
+    return this.active >= this.maxInFlight && this.queue.length >= this.maxQueue;
+  }
+
+  stats(): LimiterStats {
+    const { backend, active, maxInFlight, maxQueue } = this;
+    return { backend, active, queued: this.queue.length, maxInFlight, maxQueue };
+  }
+
+  // Rough time until a slot frees up for a new arrival, from the recent average request duration
+  retryAfterSeconds(): number {
+    if (this.averageDurationMs === undefined) {
+      return DEFAULT_RETRY_AFTER_SECONDS;
+    }
+    const waves = Math.ceil((this.queue.length + 1) / this.maxInFlight);
+    return Math.max(1, Math.ceil((waves * this.averageDurationMs) / 1000));
+  }
+
+  // onQueue gets the caller's queue position whenever it changes, then (undefined, waitedMs)
+  // once it is admitted; it is not called at all when a slot is free immediately
+  async run<T>(
+    fn: () => Promise<T>,
+    signal?: AbortSignal,
+    onQueue?: (position: number | undefined, waitedMs: number) => void
+  ): Promise<T> {
+    const queuedAt = Date.now();
+    const queued = await this.acquire(signal, onQueue && ((position) => onQueue(position, Date.now() - queuedAt)));
+    const startedAt = Date.now();
+    llmQueueWait.observe({ backend: this.backend }, (startedAt - queuedAt) / 1000);
+    if (queued) {
+      onQueue?.(undefined, startedAt - queuedAt);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const duration = Date.now() - startedAt;
+      this.averageDurationMs = this.averageDurationMs === undefined
+        ? duration
+        : this.averageDurationMs * 0.8 + duration * 0.2;
+      this.release();
+    }
+  }
+
+  // Resolves true if the caller had to wait in the queue
+  private acquire(signal?: AbortSignal, onPosition?: (position: number) => void): Promise<boolean> {
+    if (this.active < this.maxInFlight && this.queue.length === 0) {
+      this.active++;
+      return Promise.resolve(false);
+    }
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new BackendError(`${this.backend} queue is full (${this.maxQueue} waiting)`, 'http', 429));
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Aborted while queued'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== entry);
+        this.notifyPositions();
+        reject(new Error('Aborted while queued'));
+      };
+      const entry: Waiter = {
+        admit: () => {
+          signal?.removeEventListener('abort', abort);
+          resolve(true);
+        },
+        onPosition,
+      };
+
+      signal?.addEventListener('abort', abort, { once: true });
+      this.queue.push(entry);
+      onPosition?.(this.queue.length);
+    });
+  }
+
+  // Hand the slot straight to the next waiter so late arrivals can't overtake the queue
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next.admit();
+      this.notifyPositions();
+    } else {
+      this.active--;
+    }
+  }
+
+  private notifyPositions(): void {
+    this.queue.forEach((waiter, index) => waiter.onPosition?.(index + 1));
+  }
+}
+
+const limiters = new Map<string, BackendLimiter>();
+
+function backendKey(provider: ModelProvider, baseUrl: string): string {
+  return `${provider}|${baseUrl}`;
+}
+
+export function limiterFor(provider: ModelProvider, baseUrl: string): BackendLimiter {
+  const backend = backendKey(provider, baseUrl);
+  let limiter = limiters.get(backend);
+  if (!limiter) {
+    limiter = new BackendLimiter(
+      backend,
+      limitSetting(provider, 'MAX_IN_FLIGHT', 2),
+      limitSetting(provider, 'MAX_QUEUE', 16)
+    );
+    limiters.set(backend, limiter);
+  }
+  return limiter;
+}
+
+export function limiterStats(): LimiterStats[] {
+  return [...limiters.values()].map((limiter) => limiter.stats());
+}
+
+// Queue each call to the adapter's backend and report position and wait to the calling step
+export function withConcurrencyLimit(provider: ModelProvider, adapter: LLMAdapter): LLMAdapter {
+  return async (options) => {
+    const context = getStepContext();
+    const limiter = limiterFor(provider, options.baseUrl || baseUrlFor(provider, {}));
+
+    return limiter.run(
+      () => adapter(options),
+      context?.signal,
+      (position, waitedMs) => context?.onQueue?.(limiter.backend, position, waitedMs)
+    );
+  };
+}
+
+// For admission control: a backend this workflow would start on whose queue is already full.
+// Keyed like the calls themselves, so a step's own baseUrl wins over its provider's.
+export function saturatedBackend(
+  workflow: WorkflowDefinition,
+  modelConfigs: Record<string, unknown>
+): BackendLimiter | undefined {
+  const backends = new Set(workflow.steps.flatMap((step) => {
+    const { provider, baseUrl } = step.config as Record<string, unknown>;
+    if (typeof provider !== 'string' || !isModelProvider(provider)) {
+      return [];
+    }
+    return [backendKey(provider, typeof baseUrl === 'string' && baseUrl ? baseUrl : baseUrlFor(provider, modelConfigs))];
+  }));
+
+  return [...backends]
+    .map((backend) => limiters.get(backend))
+    .find((limiter) => limiter?.full);
+}
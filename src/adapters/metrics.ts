@@ -0,0 +1,128 @@
+import { ModelProvider } from '../models/registry';
+import {
+  llmCompletionTokens,
+  llmErrors,
+  llmPromptTokens,
+  llmRequestDuration,
+  llmRequests,
+  llmTimeToFirstToken,
+  llmTokensPerSecond,
+} from '../metrics';
+import { getStepContext, runInStepContext } from '../runs/context';
+import { BackendError } from './errors';
+import { LLMAdapter } from './router';
+
+// One backend call as seen by the calling step
+export interface CallStats {
+  provider: ModelProvider;
+  model: string;
+  outcome: 'success' | 'error';
+  latencyMs: number;
+  timeToFirstTokenMs?: number;
+  tokensPerSecond?: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+function errorClass(error: unknown, signal?: AbortSignal): string {
+  if (signal?.aborted) {
+    return 'aborted';
+  }
+  if (error instanceof BackendError) {
+    return error.kind === 'http' ? `http_${error.status ?? 'unknown'}` : error.kind;
+  }
+  return 'unknown';
+}
+
+// Time each call to the backend, including when its first streamed token arrived, and feed
+// both the Prometheus metrics and the calling step's own stats
+export function withMetrics(provider: ModelProvider, adapter: LLMAdapter): LLMAdapter {
+  return async (options) => {
+    const context = getStepContext();
+    const labels = { provider, model: options.model, step: context?.stepId ?? 'unknown' };
+    const startedAt = Date.now();
+    let firstTokenAt: number | undefined;
+
+    const call = () => adapter(options);
+    const observed = context?.onToken
+      ? () => runInStepContext({
+        ...context,
+        onToken: (delta) => {
+          firstTokenAt ??= Date.now();
+          context.onToken!(delta);
+        },
+      }, call)
+      : call;
+
+    try {
+      const response = await observed();
+      const finishedAt = Date.now();
+      const promptTokens = response.usage?.prompt_tokens || 0;
+      const completionTokens = response.usage?.completion_tokens || 0;
+      const generationMs = finishedAt - (firstTokenAt ?? startedAt);
+      const tokensPerSecond = completionTokens > 0 && generationMs > 0
+        ? completionTokens / (generationMs / 1000)
+        : undefined;
+
+      llmRequests.inc({ ...labels, outcome: 'success' });
+      llmPromptTokens.inc(labels, promptTokens);
+      llmCompletionTokens.inc(labels, completionTokens);
+      llmRequestDuration.observe(labels, (finishedAt - startedAt) / 1000);
+      if (firstTokenAt !== undefined) {
+        llmTimeToFirstToken.observe(labels, (firstTokenAt - startedAt) / 1000);
+      }
+      if (tokensPerSecond !== undefined) {
+        llmTokensPerSecond.observe(labels, tokensPerSecond);
+      }
+
+      context?.callStats?.push({
+        provider,
+        model: options.model,
+        outcome: 'success',
+        latencyMs: finishedAt - startedAt,
+        timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+        tokensPerSecond,
+        promptTokens,
+        completionTokens,
+      });
+      return response;
+    } catch (error) {
+      llmRequests.inc({ ...labels, outcome: 'error' });
+      llmErrors.inc({ provider, model: options.model, error: errorClass(error, context?.signal) });
+      context?.callStats?.push({
+        provider,
+        model: options.model,
+        outcome: 'error',
+        latencyMs: Date.now() - startedAt,
+        promptTokens: 0,
+        completionTokens: 0,
+      });
+      throw error;
+    }
+  };
+}
+
+export interface StepCallSummary {
+  calls: number;
+  errors: number;
+  latencyMs: number;
+  timeToFirstTokenMs?: number;
+  tokensPerSecond?: number;
+}
+
+// Roll a step's calls (repair rounds and failovers included) into one line for the run record:
+// total latency, time to first token of the first streamed call, and overall generation rate
+export function summarizeCalls(calls: CallStats[]): StepCallSummary {
+  const succeeded = calls.filter((call) => call.outcome === 'success');
+  const rated = succeeded.filter((call) => call.tokensPerSecond !== undefined);
+  const generatedTokens = rated.reduce((total, call) => total + call.completionTokens, 0);
+  const generationSeconds = rated.reduce((total, call) => total + call.completionTokens / call.tokensPerSecond!, 0);
+
+  return {
+    calls: calls.length,
+    errors: calls.length - succeeded.length,
+    latencyMs: calls.reduce((total, call) => total + call.latencyMs, 0),
+    timeToFirstTokenMs: succeeded.find((call) => call.timeToFirstTokenMs !== undefined)?.timeToFirstTokenMs,
+    tokensPerSecond: generationSeconds > 0 ? Math.round((generatedTokens / generationSeconds) * 10) / 10 : undefined,
+  };
+}
@@ -1,35 +1,165 @@
 import { registerLLMAdapter, LLMCallOptions, LLMRawResponse, LLMProvider } from 'bilko-flow';
+import { JsonSchema } from '../flows/schema';
+import { getStepContext, recordUsage } from '../runs/context';
+import { withResponseCache } from './cache';
+import { BackendError, backendFailure } from './errors';
+import { withFixtures } from './fixtures';
+import { withMetrics } from './metrics';
+import { MODEL_PROVIDERS, ModelProvider } from '../models/registry';
+import { withConcurrencyLimit } from './limiter';
+import { LLMAdapter, routedAdapter } from './router';
+import { readNdjson, readServerSentEvents, TokenCallback } from './streaming';
 
-// Ollama adapter for local open-source models
-export const ollamaAdapter = async (options: LLMCallOptions): Promise<LLMRawResponse> => {
+// 'chat' sends the full role-tagged message list to the provider's chat endpoint;
+// 'completion' flattens it into a raw prompt for base models without a chat template
+export type PromptMode = 'chat' | 'completion';
+
+// Per-provider entry of a run's modelConfigs
+export interface ProviderOptions {
+  mode?: PromptMode;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+interface OllamaChunk {
+  response?: string;
+  message?: { content: string };
+  done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OpenAIChunk {
+  choices?: { text?: string; delta?: { content?: string } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+interface TgiStreamChunk {
+  token: { text: string; special: boolean };
+  generated_text: string | null;
+  details?: { prompt_tokens?: number; generated_tokens?: number };
+}
+
+function promptMode(provider: string): PromptMode {
+  return getStepContext()?.providerOptions?.[provider]?.mode ?? 'chat';
+}
+
+// Pick the provider-specific JSON constraint: the step's declared schema when it has one,
+// otherwise a plain JSON-mode fallback; nothing for free-text steps
+function jsonFormat<S, F>(
+  options: LLMCallOptions,
+  withSchema: (schema: JsonSchema) => S,
+  fallback: F
+): S | F | undefined {
+  const schema = getStepContext()?.responseSchema;
+  if (schema) {
+    return withSchema(schema);
+  }
+  return options.responseFormat?.type === 'json_object' ? fallback : undefined;
+}
+
+// Raw-completion fallback: keep every message instead of only the first
+function flattenMessages(messages: LLMCallOptions['messages']): string {
+  return messages.map((message) => message.content).join('\n\n');
+}
+
+// Fold Ollama's NDJSON stream into the shape of a non-streaming response
+async function collectOllamaStream(response: Response, onToken: TokenCallback) {
+  let text = '';
+  let final: OllamaChunk | undefined;
+
+  for await (const chunk of readNdjson<OllamaChunk>(response.body!)) {
+    const delta = chunk.message?.content ?? chunk.response;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    if (chunk.done) {
+      final = chunk;
+    }
+  }
+
+  return { ...final, response: text, message: { role: 'assistant', content: text } };
+}
+
+// Fold OpenAI-style SSE chunks (vLLM, TGI Messages API) into the shape of a non-streaming response
+async function collectOpenAIStream(response: Response, onToken: TokenCallback) {
+  let text = '';
+  let usage: OpenAIChunk['usage'];
+
+  for await (const chunk of readServerSentEvents<OpenAIChunk>(response.body!)) {
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content ?? choice?.text;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    usage = chunk.usage ?? usage;
+  }
+
+  return { choices: [{ text, message: { role: 'assistant', content: text } }], usage };
+}
+
+// Fold TGI's generate_stream events into the shape of a non-streaming response
+async function collectTgiStream(response: Response, onToken: TokenCallback) {
+  let text = '';
+  let final: TgiStreamChunk | undefined;
+
+  for await (const chunk of readServerSentEvents<TgiStreamChunk>(response.body!)) {
+    if (!chunk.token.special) {
+      text += chunk.token.text;
+      onToken(chunk.token.text);
+    }
+    if (chunk.generated_text !== null) {
+      final = chunk;
+    }
+  }
+
+  return { generated_text: final?.generated_text ?? text, details: final?.details };
+}
+
+// Ollama adapter for local open-source models; streams NDJSON when given a token callback
+export const ollamaAdapter = async (
+  options: LLMCallOptions,
+  onToken: TokenCallback | undefined = getStepContext()?.onToken
+): Promise<LLMRawResponse> => {
   const baseUrl = options.baseUrl || 'http://localhost:11434';
-  
+  const mode = promptMode('ollama');
+
   try {
-    const response = await fetch(`${baseUrl}/api/generate`, {
+    const response = await fetch(`${baseUrl}/api/${mode === 'chat' ? 'chat' : 'generate'}`, {
       method: 'POST',
+      signal: getStepContext()?.signal,
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: options.model,
-        prompt: options.messages[0]?.content || '',
+        ...(mode === 'chat'
+          ? { messages: options.messages }
+          : { prompt: flattenMessages(options.messages) }),
         options: {
-          temperature: options.temperature || 0.7,
+          temperature: options.temperature ?? 0.7,
           num_predict: options.maxTokens || 2048,
         },
-        stream: false,
-        format: options.responseFormat?.type === 'json_object' ? 'json' : undefined,
+        stream: Boolean(onToken),
+        format: jsonFormat(options, (schema) => schema, 'json'),
       }),
     });
 
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      throw new BackendError(`Ollama API error: ${response.status} ${response.statusText}`, 'http', response.status);
+    }
+
+    const data = onToken ? await collectOllamaStream(response, onToken) : await response.json();
+    const content = mode === 'chat' ? data.message?.content : data.response;
+
+    if (typeof content !== 'string') {
+      throw new BackendError('No content returned from Ollama', 'malformed');
     }
 
-    const data = await response.json();
-    
     return {
-      content: data.response,
+      content,
       usage: {
         prompt_tokens: data.prompt_eval_count || 0,
         completion_tokens: data.eval_count || 0,
@@ -37,46 +167,61 @@ export const ollamaAdapter = async (options: LLMCallOptions): Promise<LLMRawResp
       },
     };
   } catch (error) {
-    throw new Error(`Ollama adapter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw backendFailure('Ollama', error);
   }
 };
 
-// vLLM adapter for high-performance inference
-export const vllmAdapter = async (options: LLMCallOptions): Promise<LLMRawResponse> => {
+// vLLM adapter for high-performance inference; streams SSE chunks when given a token callback
+export const vllmAdapter = async (
+  options: LLMCallOptions,
+  onToken: TokenCallback | undefined = getStepContext()?.onToken
+): Promise<LLMRawResponse> => {
   const baseUrl = options.baseUrl || 'http://localhost:8000';
-  
+  const mode = promptMode('vllm');
+
   try {
-    const response = await fetch(`${baseUrl}/v1/completions`, {
+    const response = await fetch(`${baseUrl}/v1/${mode === 'chat' ? 'chat/completions' : 'completions'}`, {
       method: 'POST',
+      signal: getStepContext()?.signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${options.apiKey}`,
       },
       body: JSON.stringify({
         model: options.model,
-        prompt: options.messages[0]?.content || '',
+        ...(mode === 'chat'
+          ? { messages: options.messages }
+          : { prompt: flattenMessages(options.messages), echo: false }),
         max_tokens: options.maxTokens || 2048,
-        temperature: options.temperature || 0.7,
-        echo: false,
-        ...(options.responseFormat?.type === 'json_object' && {
-          guided_json: {}, // vLLM guided decoding
+        temperature: options.temperature ?? 0.7,
+        ...(onToken && {
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        ...jsonFormat(options, (schema) => ({ guided_json: schema }), {
+          response_format: { type: 'json_object' },
         }),
       }),
     });
 
     if (!response.ok) {
-      throw new Error(`vLLM API error: ${response.status} ${response.statusText}`);
+      throw new BackendError(`vLLM API error: ${response.status} ${response.statusText}`, 'http', response.status);
     }
 
-    const data = await response.json();
+    const data = onToken ? await collectOpenAIStream(response, onToken) : await response.json();
     const choice = data.choices?.[0];
-    
+
     if (!choice) {
-      throw new Error('No completion returned from vLLM');
+      throw new BackendError('No completion returned from vLLM', 'malformed');
+    }
+
+    const content = mode === 'chat' ? choice.message?.content : choice.text;
+    if (typeof content !== 'string') {
+      throw new BackendError('No content returned from vLLM', 'malformed');
     }
 
     return {
-      content: choice.text,
+      content,
       usage: {
         prompt_tokens: data.usage?.prompt_tokens || 0,
         completion_tokens: data.usage?.completion_tokens || 0,
@@ -84,82 +229,146 @@ export const vllmAdapter = async (options: LLMCallOptions): Promise<LLMRawRespon
       },
     };
   } catch (error) {
-    throw new Error(`vLLM adapter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw backendFailure('vLLM', error);
   }
 };
 
-// Text Generation Inference (TGI) adapter
-export const tgiAdapter = async (options: LLMCallOptions): Promise<LLMRawResponse> => {
+// TGI Messages API (OpenAI-compatible chat completions)
+async function tgiChat(options: LLMCallOptions, onToken: TokenCallback | undefined): Promise<LLMRawResponse> {
   const baseUrl = options.baseUrl || 'http://localhost:8080';
-  
-  try {
-    const response = await fetch(`${baseUrl}/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${options.apiKey}`,
-      },
-      body: JSON.stringify({
-        inputs: options.messages[0]?.content || '',
-        parameters: {
-          max_new_tokens: options.maxTokens || 2048,
-          temperature: options.temperature || 0.7,
-          return_full_text: false,
-          ...(options.responseFormat?.type === 'json_object' && {
-            response_format: { type: 'json_object' },
-          }),
-        },
+
+  const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+    method: 'POST',
+    signal: getStepContext()?.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${options.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: options.model,
+      messages: options.messages,
+      max_tokens: options.maxTokens || 2048,
+      temperature: options.temperature ?? 0.7,
+      ...(onToken && {
+        stream: true,
+        stream_options: { include_usage: true },
       }),
-    });
+      ...jsonFormat(options, (schema) => ({ response_format: { type: 'json', value: schema } }), {
+        response_format: { type: 'json', value: { type: 'object' } },
+      }),
+    }),
+  });
 
-    if (!response.ok) {
-      throw new Error(`TGI API error: ${response.status} ${response.statusText}`);
-    }
+  if (!response.ok) {
+    throw new BackendError(`TGI API error: ${response.status} ${response.statusText}`, 'http', response.status);
+  }
 
-    const data = await response.json();
-    const generatedText = data.generated_text || data[0]?.generated_text;
-    
-    return {
-      content: generatedText,
-      usage: {
-        prompt_tokens: data.details?.prompt_tokens || 0,
-        completion_tokens: data.details?.generated_tokens || 0,
-        total_tokens: (data.details?.prompt_tokens || 0) + (data.details?.generated_tokens || 0),
+  const data = onToken ? await collectOpenAIStream(response, onToken) : await response.json();
+  const choice = data.choices?.[0];
+
+  if (!choice) {
+    throw new BackendError('No completion returned from TGI', 'malformed');
+  }
+
+  const content = choice.message?.content;
+  if (typeof content !== 'string') {
+    throw new BackendError('No content returned from TGI', 'malformed');
+  }
+
+  return {
+    content,
+    usage: {
+      prompt_tokens: data.usage?.prompt_tokens || 0,
+      completion_tokens: data.usage?.completion_tokens || 0,
+      total_tokens: data.usage?.total_tokens || 0,
+    },
+  };
+}
+
+// TGI raw generation endpoint, for base models without a chat template
+async function tgiGenerate(options: LLMCallOptions, onToken: TokenCallback | undefined): Promise<LLMRawResponse> {
+  const baseUrl = options.baseUrl || 'http://localhost:8080';
+
+  const response = await fetch(`${baseUrl}/${onToken ? 'generate_stream' : 'generate'}`, {
+    method: 'POST',
+    signal: getStepContext()?.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${options.apiKey}`,
+    },
+    body: JSON.stringify({
+      inputs: flattenMessages(options.messages),
+      parameters: {
+        max_new_tokens: options.maxTokens || 2048,
+        temperature: options.temperature ?? 0.7,
+        return_full_text: false,
+        details: true,
+        ...jsonFormat(options, (schema) => ({ grammar: { type: 'json', value: schema } }), {
+          grammar: { type: 'json', value: { type: 'object' } },
+        }),
       },
-    };
+    }),
+  });
+
+  if (!response.ok) {
+    throw new BackendError(`TGI API error: ${response.status} ${response.statusText}`, 'http', response.status);
+  }
+
+  const data = onToken ? await collectTgiStream(response, onToken) : await response.json();
+  const generatedText = data.generated_text ?? data[0]?.generated_text;
+
+  if (typeof generatedText !== 'string') {
+    throw new BackendError('No generated text returned from TGI', 'malformed');
+  }
+
+  return {
+    content: generatedText,
+    usage: {
+      prompt_tokens: data.details?.prompt_tokens || 0,
+      completion_tokens: data.details?.generated_tokens || 0,
+      total_tokens: (data.details?.prompt_tokens || 0) + (data.details?.generated_tokens || 0),
+    },
+  };
+}
+
+// Text Generation Inference (TGI) adapter; streams SSE events when given a token callback
+export const tgiAdapter = async (
+  options: LLMCallOptions,
+  onToken: TokenCallback | undefined = getStepContext()?.onToken
+): Promise<LLMRawResponse> => {
+  try {
+    return promptMode('tgi') === 'chat'
+      ? await tgiChat(options, onToken)
+      : await tgiGenerate(options, onToken);
   } catch (error) {
-    throw new Error(`TGI adapter failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw backendFailure('TGI', error);
   }
 };
 
-// Register all open-source adapters
+// Report token usage to the step that made the call
+const withUsageTracking = (adapter: LLMAdapter): LLMAdapter => async (options) => {
+  const response = await adapter(options);
+  recordUsage(response.usage);
+  return response;
+};
+
+// Wrappers around one backend's adapter, outermost first: cache hits skip the queue entirely,
+// call metrics exclude queue wait, and recorded fixtures stand in for the HTTP call itself
+const backendAdapter = (provider: ModelProvider, adapter: LLMAdapter): LLMAdapter =>
+  withResponseCache(provider, withConcurrencyLimit(provider, withMetrics(provider,
+    withUsageTracking(withFixtures(provider, adapter)))));
+
+// Register all open-source adapters. Each provider name gets a routing adapter, so a step
+// pinned to a backend that is down is served by an equivalent model on another backend;
+// every backend call waits its turn in that backend's queue unless the response is cached.
 export function registerOpenSourceAdapters(): void {
-  registerLLMAdapter('ollama' as LLMProvider, ollamaAdapter);
-  registerLLMAdapter('vllm' as LLMProvider, vllmAdapter);
-  registerLLMAdapter('tgi' as LLMProvider, tgiAdapter);
-}
+  const adapters = {
+    ollama: backendAdapter('ollama', ollamaAdapter),
+    vllm: backendAdapter('vllm', vllmAdapter),
+    tgi: backendAdapter('tgi', tgiAdapter),
+  };
 
-// Export supported open-source models
-export const OPEN_SOURCE_MODELS = {
-  ollama: [
-    'llama2',
-    'llama3:8b',
-    'llama3:70b',
-    'codellama',
-    'mistral',
-    'mixtral',
-    'qwen:7b',
-    'phi3',
-  ],
-  vllm: [
-    'meta-llama/Llama-2-7b-chat-hf',
-    'meta-llama/Llama-3-8B-Instruct',
-    'mistralai/Mistral-7B-Instruct-v0.1',
-    'codellama/CodeLlama-7b-Instruct-hf',
-  ],
-  tgi: [
-    'meta-llama/Llama-2-7b-chat-hf',
-    'meta-llama/Llama-3-8B-Instruct',
-    'mistralai/Mistral-7B-Instruct-v0.1',
-  ],
-} as const;
\ No newline at end of file
+  for (const provider of MODEL_PROVIDERS) {
+    registerLLMAdapter(provider as LLMProvider, routedAdapter(provider, adapters));
+  }
+}
@@ -0,0 +1,192 @@
+import { LLMCallOptions, LLMRawResponse } from 'bilko-flow';
+import { ModelCandidate, stepCandidates } from '../models/families';
+import { baseUrlFor, ModelProvider, modelRegistry } from '../models/registry';
+import { getStepContext, StepContext } from '../runs/context';
+import { BackendError } from './errors';
+
+export type LLMAdapter = (options: LLMCallOptions) => Promise<LLMRawResponse>;
+
+export interface RoutingAttempt extends ModelCandidate {
+  baseUrl: string;
+  error: string;
+}
+
+// Which backend served a step, and every candidate that was skipped or failed first
+export interface StepRouting {
+  servedBy?: ModelCandidate & { baseUrl: string };
+  failovers: RoutingAttempt[];
+  // The last call failed without any backend answering: each candidate was unreachable,
+  // skipped for not serving the model, or behind an open circuit
+  unreachable?: boolean;
+}
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 30_000;
+
+// Opens after FAILURE_THRESHOLD consecutive backend failures and skips the backend for
+// COOLDOWN_MS; after that a single trial call decides whether it closes again
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt < COOLDOWN_MS ? 'open' : 'half-open';
+  }
+
+  allows(): boolean {
+    const state = this.state;
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'open' || this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  succeeded(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  failed(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.failures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  // The call ended in a way that says nothing about the backend's health
+  released(): void {
+    this.trialInFlight = false;
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerFor(provider: ModelProvider, baseUrl: string): CircuitBreaker {
+  const key = `${provider}|${baseUrl}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function circuitStates(): Record<string, CircuitBreaker['state']> {
+  return Object.fromEntries([...breakers].map(([key, breaker]) => [key, breaker.state]));
+}
+
+// Backend down or erroring (connection, 5xx): count against the breaker and try the next candidate.
+// Model missing or busy (404, 408, 429) or unusable output: try the next candidate only.
+// Any other 4xx is a problem with the request itself, which no other backend would fix.
+function classify(error: unknown): { failover: boolean; trip: boolean; answered: boolean } {
+  if (!(error instanceof BackendError) || error.kind === 'connection') {
+    return { failover: true, trip: true, answered: false };
+  }
+  if (error.kind === 'malformed') {
+    return { failover: true, trip: false, answered: true };
+  }
+
+  const status = error.status ?? 500;
+  if (status >= 500) {
+    return { failover: true, trip: true, answered: true };
+  }
+  return { failover: [404, 408, 429].includes(status), trip: false, answered: true };
+}
+
+// Whether a failed step failed for want of a reachable backend, e.g. one that went down
+// mid-run, rather than because of what a backend answered
+export function backendUnreachable(routing: StepRouting | undefined): boolean {
+  return routing?.unreachable === true;
+}
+
+function recordRouting(
+  context: StepContext | undefined,
+  attempts: RoutingAttempt[],
+  servedBy?: StepRouting['servedBy'],
+  unreachable = false
+) {
+  if (!context) {
+    return;
+  }
+  const routing = context.routing ?? { failovers: [] };
+  routing.failovers.push(...attempts);
+  routing.servedBy = servedBy ?? routing.servedBy;
+  routing.unreachable = unreachable;
+  context.routing = routing;
+}
+
+// Adapter for a step pinned to `provider` that tries the step's routing candidates in order
+export function routedAdapter(provider: ModelProvider, adapters: Record<ModelProvider, LLMAdapter>): LLMAdapter {
+  return async (options) => {
+    const context = getStepContext();
+    const modelConfigs = (context?.providerOptions ?? {}) as Record<string, { apiKey?: string } | undefined>;
+    const candidates = stepCandidates(provider, options.model, context?.fallbacks);
+    const attempts: RoutingAttempt[] = [];
+    let lastError: unknown;
+    let answered = false;
+
+    for (const [index, candidate] of candidates.entries()) {
+      const primary = index === 0;
+      const baseUrl = primary && options.baseUrl ? options.baseUrl : baseUrlFor(candidate.provider, modelConfigs);
+
+      // The primary was pre-flighted; fallbacks are only worth a call if their backend has the model
+      const unavailable = primary ? undefined : await modelRegistry.unavailable(candidate, modelConfigs);
+      const breaker = breakerFor(candidate.provider, baseUrl);
+      if (unavailable || !breaker.allows()) {
+        attempts.push({ ...candidate, baseUrl, error: unavailable ?? 'circuit open' });
+        continue;
+      }
+
+      if (attempts.length > 0) {
+        console.warn(`🔀 ${context?.stepId ?? 'step'}: failing over to ${candidate.provider}/${candidate.model}`);
+        context?.onToken?.(`\n\n--- Retrying on ${candidate.provider} ---\n\n`);
+      }
+
+      try {
+        const response = await adapters[candidate.provider]({
+          ...options,
+          model: candidate.model,
+          baseUrl,
+          apiKey: primary ? options.apiKey : modelConfigs[candidate.provider]?.apiKey ?? 'not-required',
+        });
+        breaker.succeeded();
+        recordRouting(context, attempts, { ...candidate, baseUrl });
+        return response;
+      } catch (error) {
+        lastError = error;
+        const classified = classify(error);
+        const { failover, trip } = classified;
+        answered ||= classified.answered;
+        if (trip && !context?.signal.aborted) {
+          breaker.failed();
+        } else {
+          breaker.released();
+        }
+        attempts.push({ ...candidate, baseUrl, error: error instanceof Error ? error.message : 'Unknown error' });
+
+        if (!failover || context?.signal.aborted) {
+          recordRouting(context, attempts);
+          throw error;
+        }
+      }
+    }
+
+    recordRouting(context, attempts, undefined, !answered);
+    if (attempts.length === 1 && lastError) {
+      throw lastError;
+    }
+    throw new Error(`No backend could serve ${provider}/${options.model}: ${attempts
+      .map((attempt) => `${attempt.provider}/${attempt.model}: ${attempt.error}`)
+      .join('; ')}`);
+  };
+}
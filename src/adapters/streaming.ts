@@ -0,0 +1,67 @@
+export type TokenCallback = (token: string) => void;
+
+// Split a streamed response body into lines, yielding each complete line as it arrives
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Parse newline-delimited JSON (Ollama's streaming format)
+export async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as T;
+    }
+  }
+}
+
+// Parse the `data:` payloads of a Server-Sent Events stream (vLLM and TGI), stopping at `[DONE]`
+export async function* readServerSentEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+      continue;
+    }
+
+    if (line === '' && data.length > 0) {
+      const payload = data.join('\n');
+      data = [];
+
+      if (payload === '[DONE]') {
+        return;
+      }
+      yield JSON.parse(payload) as T;
+    }
+  }
+
+  if (data.length > 0 && data.join('\n') !== '[DONE]') {
+    yield JSON.parse(data.join('\n')) as T;
+  }
+}
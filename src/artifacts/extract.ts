@@ -0,0 +1,210 @@
+// Turns the free-text outputs of the code-generating steps into a virtual project tree
+
+// Later steps refine earlier ones, so on conflict the later step's file wins
+export const ARTIFACT_STEPS = [
+  'generate-project-structure',
+  'create-core-components',
+  'setup-testing',
+  'setup-deployment',
+];
+
+export interface CodeBlock {
+  language: string;
+  content: string;
+  filename?: string;
+}
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+  language: string;
+  step: string;
+}
+
+export interface ArtifactConflict {
+  path: string;
+  steps: string[];
+}
+
+export interface UnassignedBlock {
+  step: string;
+  language: string;
+  preview: string;
+}
+
+export interface ExtractedProject {
+  files: ProjectFile[];
+  tree: string[];
+  conflicts: ArtifactConflict[];
+  unassigned: UnassignedBlock[];
+}
+
+const CODE_BLOCK_PATTERN = /```([^\n`]*)\n([\s\S]*?)```/g;
+const TREE_GLYPHS = /[├└│]/;
+const KNOWN_BASENAMES = new Set(['Dockerfile', 'Makefile', 'Procfile', 'LICENSE']);
+
+// Languages whose unnamed blocks can only plausibly be one file
+const DEFAULT_FILENAMES: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+};
+
+function isPathLike(token: string): boolean {
+  if (!token || /\s|:\/\//.test(token)) {
+    return false;
+  }
+  const basename = token.split('/').pop() || '';
+  return KNOWN_BASENAMES.has(basename) || /^\.?[\w.-]*\.[A-Za-z0-9]+$/.test(basename);
+}
+
+// Normalize to a relative path and refuse anything that would escape the project root
+export function normalizePath(filePath: string): string | undefined {
+  const segments = filePath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.');
+
+  if (segments.length === 0 || segments.includes('..')) {
+    return undefined;
+  }
+  return segments.join('/');
+}
+
+// Look for a filename in a line like "**src/index.ts**", "File: `app.ts`" or "### docker-compose.yml"
+function filenameFromLine(line: string): string | undefined {
+  const emphasized = line.match(/[`*_]+([^`*_\s]+)[`*_]+/);
+  if (emphasized && isPathLike(emphasized[1])) {
+    return emphasized[1];
+  }
+
+  return line
+    .replace(/^[\s#>*\-\d.)]+/, '')
+    .replace(/^(?:file(?:name)?|path)\s*:\s*/i, '')
+    .split(/\s+/)
+    .map((token) => token.replace(/[:,;()]+$/, ''))
+    .find(isPathLike);
+}
+
+// Filename hints: the fence info string, a comment on the block's first line, or the line just above
+function filenameHint(info: string, content: string, textBefore: string): string | undefined {
+  const infoParts = info.trim().split(/[\s:]+/);
+  const fromInfo = infoParts
+    .slice(1)
+    .map((part) => part.replace(/^(?:title|file(?:name)?)=/, '').replace(/^["']|["']$/g, ''))
+    .find(isPathLike);
+  if (fromInfo) {
+    return fromInfo;
+  }
+
+  const firstLine = content.split('\n')[0] || '';
+  const comment = firstLine.match(/^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name)?\s*:\s*)?([^\s*]+)/i);
+  if (comment && isPathLike(comment[1])) {
+    return comment[1];
+  }
+
+  const previousLine = textBefore.trimEnd().split('\n').pop() || '';
+  return filenameFromLine(previousLine);
+}
+
+export function parseCodeBlocks(text: string): CodeBlock[] {
+  return [...text.matchAll(CODE_BLOCK_PATTERN)].map((match) => {
+    const [, info, content] = match;
+    return {
+      language: info.trim().split(/[\s:]+/)[0] || 'text',
+      content,
+      filename: filenameHint(info, content, text.slice(0, match.index)),
+    };
+  });
+}
+
+export function isTreeListing(content: string): boolean {
+  return content.split('\n').filter((line) => TREE_GLYPHS.test(line)).length >= 2;
+}
+
+// Parse a `tree`-style listing into file paths (directories are implied by their children)
+export function parseTreeListing(listing: string): string[] {
+  const stack: string[] = [];
+  const entries: { path: string; depth: number }[] = [];
+
+  for (const rawLine of listing.split('\n')) {
+    const line = rawLine.replace(/\s+(?:#|\/\/).*$/, '').trimEnd();
+    const match = line.match(/^([\s│├└─|`+\\-]*)(.+)$/);
+    if (!match) {
+      continue;
+    }
+
+    const [, prefix, name] = match;
+    // Unindented lines (usually the project root folder) are not part of file paths
+    if (!TREE_GLYPHS.test(prefix)) {
+      continue;
+    }
+
+    const depth = Math.max(Math.round(prefix.length / 4) - 1, 0);
+    stack.length = depth;
+    const entryPath = [...stack, name.replace(/\/$/, '')].join('/');
+    stack.push(name.replace(/\/$/, ''));
+    entries.push({ path: name.endsWith('/') ? `${entryPath}/` : entryPath, depth });
+  }
+
+  // Keep leaves: entries that are not explicit directories and have no children
+  return entries
+    .filter((entry, index) => {
+      const next = entries[index + 1];
+      return !entry.path.endsWith('/') && !(next && next.depth > entry.depth);
+    })
+    .map((entry) => normalizePath(entry.path))
+    .filter((entryPath): entryPath is string => entryPath !== undefined);
+}
+
+// Map a bare basename onto the tree listing when it identifies exactly one file
+function resolveAgainstTree(filename: string, tree: string[]): string {
+  if (filename.includes('/')) {
+    return filename;
+  }
+  const candidates = tree.filter((entry) => entry.split('/').pop() === filename);
+  return candidates.length === 1 ? candidates[0] : filename;
+}
+
+export function extractProject(outputs: Record<string, unknown>): ExtractedProject {
+  const files = new Map<string, ProjectFile>();
+  const conflicts = new Map<string, ArtifactConflict>();
+  const unassigned: UnassignedBlock[] = [];
+  let tree: string[] = [];
+
+  for (const step of ARTIFACT_STEPS) {
+    const output = outputs[step];
+    if (typeof output !== 'string') {
+      continue;
+    }
+
+    for (const block of parseCodeBlocks(output)) {
+      if (tree.length === 0 && isTreeListing(block.content)) {
+        tree = parseTreeListing(block.content);
+        continue;
+      }
+
+      const filename = block.filename || DEFAULT_FILENAMES[block.language.toLowerCase()];
+      const filePath = filename && normalizePath(resolveAgainstTree(filename, tree));
+      if (!filePath) {
+        unassigned.push({ step, language: block.language, preview: block.content.slice(0, 200) });
+        continue;
+      }
+
+      const existing = files.get(filePath);
+      if (existing && existing.content.trim() !== block.content.trim()) {
+        const conflict = conflicts.get(filePath) || { path: filePath, steps: [existing.step] };
+        conflict.steps.push(step);
+        conflicts.set(filePath, conflict);
+      }
+
+      files.set(filePath, { path: filePath, content: block.content, language: block.language, step });
+    }
+  }
+
+  return {
+    files: [...files.values()].sort((a, b) => a.path.localeCompare(b.path)),
+    tree,
+    conflicts: [...conflicts.values()],
+    unassigned,
+  };
+}
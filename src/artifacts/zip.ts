@@ -0,0 +1,20 @@
+import JSZip from 'jszip';
+import { ExtractedProject } from './extract';
+
+// Package the extracted project under a single root folder, with a report of what could not be placed
+export async function buildProjectZip(project: ExtractedProject, rootName: string): Promise<Buffer> {
+  const zip = new JSZip();
+  const root = zip.folder(rootName)!;
+
+  for (const file of project.files) {
+    root.file(file.path, file.content);
+  }
+
+  root.file('ARTIFACT_REPORT.json', JSON.stringify({
+    files: project.files.map(({ path, step }) => ({ path, step })),
+    conflicts: project.conflicts,
+    unassigned: project.unassigned,
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,173 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { RunRecord } from '../runs/types';
+import { apiKeyStore, hasRole, hashKey, Role } from './keys';
+
+export { apiKeyStore, isRole, ROLES } from './keys';
+export type { ApiKey, Role } from './keys';
+
+// Who is making a request, as established from their API key
+export interface Principal {
+  user: string;
+  role: Role;
+  // 'env' for ADMIN_API_KEY, 'local' for unauthenticated loopback access (AUTH_LOCAL_ADMIN)
+  keyId: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 | 429, public readonly retryAfter?: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// The parts of a request authentication looks at, so the Express server and the
+// serverless function share it
+export interface AuthRequest {
+  headers: Record<string, string | string[] | undefined>;
+  remoteAddress?: string;
+}
+
+const DEFAULT_RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 120;
+const RATE_WINDOW_MS = 60_000;
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Fixed one-minute windows per key
+class RateLimiter {
+  private windows = new Map<string, { startedAt: number; count: number }>();
+
+  // Seconds until the key may retry, or undefined when the request is allowed
+  take(keyId: string, limit: number): number | undefined {
+    const now = Date.now();
+    let window = this.windows.get(keyId);
+    if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(keyId, window);
+    }
+
+    if (window.count >= limit) {
+      return Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000);
+    }
+    window.count++;
+    return undefined;
+  }
+}
+
+const rateLimiter = new RateLimiter();
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// `Authorization: Bearer <key>` or `X-API-Key: <key>`. Keys are never read from the URL,
+// where access logs and proxies would record them.
+function credentialFrom(request: AuthRequest): string | undefined {
+  const authorization = headerValue(request.headers.authorization);
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = headerValue(request.headers['x-api-key']);
+  return apiKey ? apiKey.trim() : undefined;
+}
+
+// With AUTH_LOCAL_ADMIN=true, and until the first key exists, direct loopback requests act as
+// a local admin for development without keys. Proxied requests are never treated as local.
+async function isOpenLocalRequest(request: AuthRequest): Promise<boolean> {
+  return process.env.AUTH_LOCAL_ADMIN === 'true'
+    && !process.env.ADMIN_API_KEY
+    && !request.headers['x-forwarded-for']
+    && LOOPBACK_ADDRESSES.has(request.remoteAddress ?? '')
+    && (await apiKeyStore.list()).length === 0;
+}
+
+export async function authenticate(request: AuthRequest): Promise<Principal> {
+  const credential = credentialFrom(request);
+
+  if (!credential) {
+    if (await isOpenLocalRequest(request)) {
+      return { user: 'local', role: 'admin', keyId: 'local' };
+    }
+    throw new AuthError('API key required', 401);
+  }
+
+  let principal: Principal;
+  let limit = DEFAULT_RATE_LIMIT;
+  if (process.env.ADMIN_API_KEY && hashKey(credential) === hashKey(process.env.ADMIN_API_KEY)) {
+    principal = { user: 'admin', role: 'admin', keyId: 'env' };
+  } else {
+    const key = await apiKeyStore.find(credential);
+    if (!key) {
+      throw new AuthError('Invalid API key', 401);
+    }
+    principal = { user: key.user, role: key.role, keyId: key.id };
+    limit = key.rateLimit ?? limit;
+  }
+
+  const retryAfter = rateLimiter.take(principal.keyId, limit);
+  if (retryAfter !== undefined) {
+    throw new AuthError(`Rate limit of ${limit} requests per minute exceeded`, 429, retryAfter);
+  }
+  return principal;
+}
+
+export function authorize(principal: Principal, required: Role): void {
+  if (!hasRole(principal.role, required)) {
+    throw new AuthError(`Requires the ${required} role`, 403);
+  }
+}
+
+// Admins see every run; everyone else only the runs they started
+export function canAccessRun(principal: Principal, run: RunRecord): boolean {
+  return principal.role === 'admin' || run.owner === principal.user;
+}
+
+// Origins allowed to call the API from a browser, from CORS_ORIGINS (comma-separated).
+// Empty means same-origin only.
+export function allowedOrigins(): string[] {
+  return (process.env.CORS_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+}
+
+// Express and Vercel responses both fit this shape
+interface ErrorResponse {
+  status(code: number): { json(body: unknown): unknown };
+  setHeader(name: string, value: string): unknown;
+}
+
+export function sendAuthError(res: ErrorResponse, error: unknown): void {
+  if (!(error instanceof AuthError)) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    return;
+  }
+  if (error.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+  res.status(error.status).json({ error: error.message, ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }) });
+}
+
+// Authenticate and rate-limit every request; the principal is left on res.locals
+export const authenticateRequest: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  authenticate({ headers: req.headers, remoteAddress: req.socket.remoteAddress })
+    .then((principal) => {
+      res.locals.principal = principal;
+      next();
+    })
+    .catch((error) => sendAuthError(res, error));
+};
+
+export function requireRole(role: Role): RequestHandler {
+  return (req, res, next) => {
+    try {
+      authorize(principalOf(res), role);
+      next();
+    } catch (error) {
+      sendAuthError(res, error);
+    }
+  };
+}
+
+export function principalOf(res: Response): Principal {
+  return res.locals.principal as Principal;
+}
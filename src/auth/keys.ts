@@ -0,0 +1,143 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// viewer reads workflows, models and its own runs; runner also starts, cancels, resumes and
+// deletes them; admin sees every user's runs and manages keys
+export const ROLES = ['viewer', 'runner', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export interface ApiKey {
+  id: string;
+  // Runs started with the key belong to this user; one user can hold several keys
+  user: string;
+  role: Role;
+  // SHA-256 of the key; the key itself is only shown when it is created
+  hash: string;
+  name?: string;
+  // Requests per minute; API_RATE_LIMIT applies when unset
+  rateLimit?: number;
+  createdAt: string;
+}
+
+export interface NewApiKey {
+  user: string;
+  role: Role;
+  name?: string;
+  rateLimit?: number;
+}
+
+interface KeyFile {
+  keys: ApiKey[];
+}
+
+const KEY_PREFIX = 'rta_';
+
+export function isRole(role: unknown): role is Role {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+}
+
+// Roles are ordered: each one can do everything the previous one can
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function sameHash(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Keys kept in a local JSON file. The file is re-read whenever it changes on disk, so keys
+// added or revoked by hand apply without a restart.
+export class ApiKeyStore {
+  private keys: ApiKey[] = [];
+  private loadedMtimeMs?: number;
+
+  constructor(private readonly file: string) {}
+
+  async list(): Promise<ApiKey[]> {
+    await this.reload();
+    return this.keys;
+  }
+
+  async find(key: string): Promise<ApiKey | undefined> {
+    const hash = hashKey(key);
+    return (await this.list()).find((candidate) => sameHash(candidate.hash, hash));
+  }
+
+  // Returns the plaintext key alongside its record; only the hash is stored
+  async create(details: NewApiKey): Promise<{ key: string; record: ApiKey }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKey = {
+      id: uuidv4(),
+      user: details.user,
+      role: details.role,
+      hash: hashKey(key),
+      ...(details.name && { name: details.name }),
+      ...(details.rateLimit !== undefined && { rateLimit: details.rateLimit }),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.write([...(await this.list()), record]);
+    return { key, record };
+  }
+
+  // Returns false when no key has this ID
+  async revoke(id: string): Promise<boolean> {
+    const keys = await this.list();
+    if (!keys.some((key) => key.id === id)) {
+      return false;
+    }
+    await this.write(keys.filter((key) => key.id !== id));
+    return true;
+  }
+
+  private async reload(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.file)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.keys = [];
+        this.loadedMtimeMs = undefined;
+        return;
+      }
+      throw error;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const parsed = JSON.parse(await fs.readFile(this.file, 'utf8')) as Partial<KeyFile>;
+    if (!Array.isArray(parsed.keys)) {
+      throw new Error(`${this.file}: expected { "keys": [...] }`);
+    }
+    this.keys = parsed.keys.filter((key) => {
+      const valid = typeof key?.id === 'string' && typeof key.user === 'string' && isRole(key.role) && typeof key.hash === 'string';
+      if (!valid) {
+        console.warn(`⚠️ Ignoring malformed API key entry in ${this.file}`);
+      }
+      return valid;
+    });
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private async write(keys: ApiKey[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const file: KeyFile = { keys };
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await fs.rename(`${this.file}.tmp`, this.file);
+    this.keys = keys;
+    this.loadedMtimeMs = (await fs.stat(this.file)).mtimeMs;
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore(
+  process.env.API_KEYS_FILE || path.join(process.cwd(), 'data', 'api-keys.json')
+);
@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { run } from './index';
+
+// The research-to-app executable. Kept apart from ./index so importing the CLI never starts it.
+run();
@@ -0,0 +1,431 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isCacheMode, CACHE_MODES, CacheMode } from '../adapters/cache';
+import { extractProject } from '../artifacts/extract';
+import { workflowCatalog, WorkflowEntry } from '../flows/catalog';
+import { configureWorkflow, FlowConfiguration, FlowConfigurationError } from '../flows/configure';
+import { resolveWorkflowInputs, WorkflowInputError } from '../flows/validate';
+import { DEFAULT_BASE_URLS, modelRegistry } from '../models/registry';
+import { createRun, executeRun, RunParams } from '../runs/executor';
+import { describeRun, runOutputs, runRegistry, summarizeRun } from '../runs/registry';
+import { prepareResume } from '../runs/resume';
+import { RunEvent, RunRecord, RunStatus, StepRecord } from '../runs/types';
+import { MissingSecretsError, redact, resolveSecrets } from '../secrets';
+
+// Exit codes scripts can branch on: a run that failed at a step (1) is told apart from
+// bad arguments or configuration (2), from backends that are down or missing a model (3)
+// and from anything unexpected (4)
+export const EXIT_CODES = {
+  ok: 0,
+  stepFailed: 1,
+  usage: 2,
+  backendUnavailable: 3,
+  internal: 4,
+  cancelled: 130,
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+export class CliError extends Error {
+  constructor(message: string, public readonly exitCode: ExitCode, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface CliOptions {
+  json: boolean;
+  quiet: boolean;
+  file?: string;
+  workflow?: string;
+  input: string[];
+  provider?: string;
+  model?: string;
+  cache?: string;
+  output?: string;
+  step?: string;
+  status?: string;
+  limit?: string;
+  query?: string;
+}
+
+const RUN_STATUSES: RunStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+
+const STEP_ICONS: Record<StepRecord['status'], string> = {
+  pending: '·',
+  running: '⏳',
+  completed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+};
+
+// Results go to stdout (one JSON document with --json); progress and logs go to stderr
+function print(options: CliOptions, human: () => string, json: () => unknown): void {
+  process.stdout.write(options.json ? `${JSON.stringify(redact(json()), null, 2)}\n` : `${human()}\n`);
+}
+
+function progress(options: CliOptions, message: string): void {
+  if (!options.quiet) {
+    process.stderr.write(`${message}\n`);
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function stepDuration(step: StepRecord): string {
+  return step.startedAt && step.finishedAt
+    ? formatDuration(Date.parse(step.finishedAt) - Date.parse(step.startedAt))
+    : '';
+}
+
+function formatRun(run: RunRecord): string {
+  const duration = (run.finishedAt ? Date.parse(run.finishedAt) : Date.now()) - Date.parse(run.createdAt);
+  const width = Math.max(...run.steps.map((step) => step.id.length));
+  const lines = [
+    `Run ${run.id} (${run.workflowId}): ${run.status} after ${formatDuration(duration)}`,
+    ...Object.entries(run.inputs).map(([name, value]) => `  ${name}: ${String(value).split('\n')[0].slice(0, 100)}`),
+    ...(run.resumedFrom ? [`  resumed from ${run.resumedFrom}`] : []),
+    '',
+    ...run.steps.map((step) => {
+      const detail = step.status === 'failed'
+        ? step.error
+        : [stepDuration(step), step.usage ? `${step.usage.total_tokens} tokens` : ''].filter(Boolean).join(', ');
+      return `  ${STEP_ICONS[step.status]} ${step.id.padEnd(width)}  ${detail ?? ''}`.trimEnd();
+    }),
+  ];
+
+  if (run.error) {
+    lines.push('', `❌ ${run.error.step ? `Failed at ${run.error.step}: ` : ''}${run.error.message}`);
+  }
+  return lines.join('\n');
+}
+
+function logProgress(options: CliOptions, event: RunEvent): void {
+  switch (event.type) {
+    case 'step-started':
+      progress(options, `⏳ ${event.stepId}`);
+      break;
+    case 'step-queued':
+      progress(options, `🕒 ${event.stepId} queued for ${event.backend} (position ${event.position})`);
+      break;
+    case 'step-completed':
+      progress(options, `✅ ${event.stepId}${event.usage ? ` (${event.usage.total_tokens} tokens)` : ''}`);
+      break;
+    case 'step-failed':
+      progress(options, `❌ ${event.stepId}: ${event.error}`);
+      break;
+  }
+}
+
+// The executor marks failures where a backend was unreachable, either at its pre-flight check
+// or because the router couldn't reach one mid-run, apart from steps that failed on their own
+function exitCodeFor(run: RunRecord): ExitCode {
+  if (run.status === 'completed') {
+    return EXIT_CODES.ok;
+  }
+  if (run.status === 'cancelled') {
+    return EXIT_CODES.cancelled;
+  }
+  if (run.error?.backendUnavailable) {
+    return EXIT_CODES.backendUnavailable;
+  }
+  return run.error?.step ? EXIT_CODES.stepFailed : EXIT_CODES.internal;
+}
+
+// Every backend at its configured URL (OLLAMA_URL, VLLM_URL, TGI_URL)
+function defaultModelConfigs(): Record<string, unknown> {
+  return {
+    ollama: { baseUrl: DEFAULT_BASE_URLS.ollama, apiKey: 'not-required' },
+    vllm: { baseUrl: DEFAULT_BASE_URLS.vllm, apiKey: process.env.VLLM_API_KEY || 'not-required' },
+    tgi: { baseUrl: DEFAULT_BASE_URLS.tgi },
+  };
+}
+
+async function workflowEntry(id: string): Promise<WorkflowEntry & { definition: NonNullable<WorkflowEntry['definition']> }> {
+  const entry = await workflowCatalog.get(id);
+  if (!entry) {
+    throw new CliError(`Workflow not found: ${id}`, EXIT_CODES.usage);
+  }
+  if (!entry.definition || entry.errors.length > 0) {
+    throw new CliError(`Workflow ${entry.id} is invalid`, EXIT_CODES.usage, entry.errors);
+  }
+  return entry as WorkflowEntry & { definition: NonNullable<WorkflowEntry['definition']> };
+}
+
+async function runParams(entry: WorkflowEntry, cache?: string): Promise<RunParams> {
+  if (cache !== undefined && !isCacheMode(cache)) {
+    throw new CliError(`--cache must be one of: ${CACHE_MODES.join(', ')}`, EXIT_CODES.usage);
+  }
+
+  try {
+    return {
+      modelConfigs: defaultModelConfigs(),
+      secrets: await resolveSecrets(entry.definition?.secrets),
+      cache: cache as CacheMode | undefined,
+    };
+  } catch (error) {
+    if (error instanceof MissingSecretsError) {
+      throw new CliError(error.message, EXIT_CODES.usage, error.errors);
+    }
+    throw error;
+  }
+}
+
+async function findRun(id: string | undefined): Promise<RunRecord> {
+  if (!id) {
+    throw new CliError('A run ID is required', EXIT_CODES.usage);
+  }
+  const run = await runRegistry.get(id);
+  if (!run) {
+    throw new CliError(`Run not found: ${id}`, EXIT_CODES.usage);
+  }
+  return run;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// The topic comes from the argument, --file, or stdin when the argument is "-". Stdin is never
+// read otherwise, so a script without a terminal doesn't hang waiting on it.
+async function readTopic(argument: string | undefined, options: CliOptions): Promise<string | undefined> {
+  if (options.file) {
+    return (await fs.readFile(options.file, 'utf8')).trim();
+  }
+  if (argument === '-') {
+    return (await readStdin()).trim();
+  }
+  return argument?.trim();
+}
+
+// --input name=value pairs, with the topic filling researchTopic (or the first input not given)
+function workflowInputs(entry: WorkflowEntry, topic: string | undefined, pairs: string[]): Record<string, unknown> {
+  const provided: Record<string, unknown> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new CliError(`--input must look like name=value: ${pair}`, EXIT_CODES.usage);
+    }
+    provided[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+
+  if (topic) {
+    const target = entry.inputs.find((input) => input.name === 'researchTopic')
+      ?? entry.inputs.find((input) => !(input.name in provided));
+    if (!target) {
+      throw new CliError(`Workflow ${entry.id} takes no topic; use --input`, EXIT_CODES.usage);
+    }
+    provided[target.name] = topic;
+  }
+
+  try {
+    return resolveWorkflowInputs(entry.inputs, provided);
+  } catch (error) {
+    if (error instanceof WorkflowInputError) {
+      throw new CliError(error.message, EXIT_CODES.usage, error.errors);
+    }
+    throw error;
+  }
+}
+
+// Execute a registered run in this process, relaying progress; Ctrl-C cancels it
+async function executeInForeground(
+  run: RunRecord,
+  workflow: WorkflowEntry['definition'] & object,
+  params: RunParams,
+  options: CliOptions
+): Promise<void> {
+  progress(options, `🆔 Run ${run.id}`);
+  const unsubscribe = runRegistry.subscribe(run.id, (event) => logProgress(options, event));
+  const cancel = () => {
+    progress(options, '🛑 Cancelling...');
+    runRegistry.cancel(run.id);
+  };
+  process.once('SIGINT', cancel);
+
+  try {
+    await executeRun(run, workflow, params);
+  } finally {
+    process.off('SIGINT', cancel);
+    unsubscribe();
+  }
+}
+
+async function finishRun(run: RunRecord, options: CliOptions): Promise<ExitCode> {
+  const written = options.output ? await exportRun(run, options.output) : [];
+
+  print(
+    options,
+    () => [
+      formatRun(run),
+      ...(options.output ? ['', `📦 Exported ${written.length} files to ${options.output}`] : []),
+    ].join('\n'),
+    () => ({ ...describeRun(run), ...(options.output && { exported: written }) })
+  );
+  return exitCodeFor(run);
+}
+
+export async function runCommand([argument]: string[], options: CliOptions): Promise<ExitCode> {
+  const entry = await workflowEntry(options.workflow ?? 'research-to-app-trial');
+  const inputs = workflowInputs(entry, await readTopic(argument, options), options.input);
+
+  const configuration: FlowConfiguration = {
+    ...(options.provider && { provider: options.provider }),
+    ...(options.model && { model: options.model }),
+  };
+  let workflow;
+  try {
+    workflow = configureWorkflow(entry.definition, configuration);
+  } catch (error) {
+    if (error instanceof FlowConfigurationError) {
+      throw new CliError(error.message, EXIT_CODES.usage, error.errors);
+    }
+    throw error;
+  }
+
+  const params = await runParams(entry, options.cache);
+  const problems = await modelRegistry.checkWorkflow(workflow, params.modelConfigs);
+  if (problems.length > 0) {
+    throw new CliError('Pre-flight check failed', EXIT_CODES.backendUnavailable, problems);
+  }
+
+  const run = createRun(workflow, inputs, params, configuration);
+  await executeInForeground(run, workflow, params, options);
+  return finishRun(run, options);
+}
+
+export async function resumeCommand([id]: string[], options: CliOptions): Promise<ExitCode> {
+  const source = await findRun(id);
+  if (source.status !== 'failed' && source.status !== 'cancelled') {
+    throw new CliError(`Only failed or cancelled runs can be resumed; run is ${source.status}`, EXIT_CODES.usage);
+  }
+
+  const step = options.step || source.error?.step;
+  if ((options.provider || options.model) && !step) {
+    throw new CliError('--step is required to override provider or model', EXIT_CODES.usage);
+  }
+
+  const entry = await workflowEntry(source.workflowId);
+  const params = await runParams(entry, options.cache ?? source.cache?.mode);
+  let resumed;
+  try {
+    resumed = prepareResume(
+      source,
+      entry.definition,
+      params,
+      options.provider || options.model ? { step: step!, provider: options.provider, model: options.model } : undefined
+    );
+  } catch (error) {
+    throw new CliError(
+      error instanceof Error ? error.message : 'Unknown error',
+      EXIT_CODES.usage,
+      error instanceof FlowConfigurationError ? error.errors : []
+    );
+  }
+
+  await executeInForeground(resumed.run, resumed.workflow, params, options);
+  return finishRun(resumed.run, options);
+}
+
+export async function statusCommand([id]: string[], options: CliOptions): Promise<ExitCode> {
+  const run = await findRun(id);
+  print(options, () => formatRun(run), () => describeRun(run));
+  return EXIT_CODES.ok;
+}
+
+export async function listCommand(_: string[], options: CliOptions): Promise<ExitCode> {
+  if (options.status && !RUN_STATUSES.includes(options.status as RunStatus)) {
+    throw new CliError(`--status must be one of: ${RUN_STATUSES.join(', ')}`, EXIT_CODES.usage);
+  }
+
+  const runs = await runRegistry.list({
+    status: options.status as RunStatus | undefined,
+    workflowId: options.workflow,
+    query: options.query,
+    limit: options.limit ? Number(options.limit) : 20,
+  });
+
+  print(
+    options,
+    () => runs.length === 0
+      ? 'No runs found'
+      : runs.map((run) => {
+        const topic = String(run.inputs.researchTopic ?? '').split('\n')[0].slice(0, 60);
+        return `${STEP_ICONS[run.status === 'cancelled' ? 'skipped' : run.status]} ${run.id}  ${run.createdAt}  ${run.workflowId}  ${topic}`;
+      }).join('\n'),
+    () => ({ runs: runs.map(summarizeRun) })
+  );
+  return EXIT_CODES.ok;
+}
+
+// Write run.json, each step's output under outputs/ and the extracted project under project/
+export async function exportRun(run: RunRecord, directory: string): Promise<string[]> {
+  const written: string[] = [];
+  const write = async (relative: string, content: string) => {
+    const target = path.resolve(directory, relative);
+    if (path.relative(path.resolve(directory), target).startsWith('..')) {
+      throw new Error(`Refusing to write outside ${directory}: ${relative}`);
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+    written.push(relative);
+  };
+
+  await write('run.json', JSON.stringify(describeRun(run), null, 2));
+  for (const [stepId, output] of Object.entries(runOutputs(run))) {
+    await write(
+      path.join('outputs', typeof output === 'string' ? `${stepId}.md` : `${stepId}.json`),
+      typeof output === 'string' ? output : JSON.stringify(output, null, 2)
+    );
+  }
+  for (const file of extractProject(runOutputs(run)).files) {
+    await write(path.join('project', file.path), file.content);
+  }
+  return written;
+}
+
+export async function exportCommand([id, directory]: string[], options: CliOptions): Promise<ExitCode> {
+  const target = directory ?? options.output;
+  if (!target) {
+    throw new CliError('An output directory is required', EXIT_CODES.usage);
+  }
+
+  const run = await findRun(id);
+  const written = await exportRun(run, target);
+  print(
+    options,
+    () => `📦 Exported ${written.length} files from run ${run.id} to ${target}`,
+    () => ({ runId: run.id, directory: target, files: written })
+  );
+  return EXIT_CODES.ok;
+}
+
+// Reachability and served models of every backend, and whether the workflow's models are served
+export async function checkCommand(_: string[], options: CliOptions): Promise<ExitCode> {
+  const modelConfigs = defaultModelConfigs();
+  const providers = await modelRegistry.list(modelConfigs, true);
+  const entry = await workflowEntry(options.workflow ?? 'research-to-app-trial');
+  const problems = await modelRegistry.checkWorkflow(entry.definition, modelConfigs);
+
+  print(
+    options,
+    () => [
+      ...providers.map((backend) => backend.status === 'online'
+        ? `✅ ${backend.provider} at ${backend.baseUrl}: ${backend.models.map((model) => model.id).join(', ') || 'no models'}`
+        : `❌ ${backend.provider} at ${backend.baseUrl}: ${backend.error}`),
+      '',
+      problems.length === 0
+        ? `✅ Every model ${entry.id} uses is being served`
+        : [`❌ ${entry.id} can't run:`, ...problems.map((problem) => `  ${problem}`)].join('\n'),
+    ].join('\n'),
+    () => ({ providers, workflow: entry.id, problems })
+  );
+  return problems.length === 0 ? EXIT_CODES.ok : EXIT_CODES.backendUnavailable;
+}
@@ -0,0 +1,149 @@
+import { parseArgs } from 'util';
+import { registerOpenSourceAdapters } from '../adapters/opensource-llm';
+import { registerNotifications } from '../notifications';
+import { installConsoleRedaction } from '../secrets';
+import { registerLocalStepHandlers } from '../steps';
+import {
+  checkCommand,
+  CliError,
+  CliOptions,
+  EXIT_CODES,
+  ExitCode,
+  exportCommand,
+  listCommand,
+  resumeCommand,
+  runCommand,
+  statusCommand,
+} from './commands';
+
+export { EXIT_CODES } from './commands';
+
+const USAGE = `Usage: research-to-app <command> [options]
+
+Commands:
+  run [topic]             Run a workflow; the topic may also come from --file, or stdin with "-"
+  status <run-id>         Show a run and its steps
+  list                    List recent runs
+  resume <run-id>         Resume a failed or cancelled run from its failed step
+  export <run-id> <dir>   Write a run's outputs and generated project to a directory
+  check                   Check every backend and the models a workflow needs
+
+Options:
+  -w, --workflow <id>     Workflow to run or check (default: research-to-app-trial); filter for list
+  -i, --input <k=v>       Workflow input, repeatable
+  -f, --file <path>       Read the topic from a file
+  -p, --provider <name>   Run every step on this provider (ollama, vllm, tgi); with resume, the failed step
+  -m, --model <name>      Run every step on this model; with resume, the failed step
+      --step <id>         Step whose provider or model resume overrides (default: the failed step)
+      --cache <mode>      Response cache mode (use, refresh, off)
+  -o, --output <dir>      With run or resume, export the finished run to this directory
+      --status <status>   Filter list by status
+      --query <text>      Filter list by topic text
+      --limit <n>         Number of runs to list (default: 20)
+      --json              Print results as JSON
+  -q, --quiet             Don't print progress
+  -h, --help              Show this help
+
+Exit codes:
+  0    success
+  1    a step failed
+  2    bad arguments, unknown run or workflow, invalid inputs or missing secrets
+  3    a backend is unreachable or doesn't serve a required model
+  4    an unexpected error
+  130  cancelled`;
+
+const COMMANDS: Record<string, (positionals: string[], options: CliOptions) => Promise<ExitCode>> = {
+  run: runCommand,
+  status: statusCommand,
+  list: listCommand,
+  resume: resumeCommand,
+  export: exportCommand,
+  check: checkCommand,
+};
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      workflow: { type: 'string', short: 'w' },
+      input: { type: 'string', short: 'i', multiple: true },
+      file: { type: 'string', short: 'f' },
+      provider: { type: 'string', short: 'p' },
+      model: { type: 'string', short: 'm' },
+      step: { type: 'string' },
+      cache: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      status: { type: 'string' },
+      query: { type: 'string' },
+      limit: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(argv);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  const { values, positionals: [command, ...positionals] } = parsed;
+  if (values.help || !command) {
+    (values.help ? process.stdout : process.stderr).write(`${USAGE}\n`);
+    return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`❌ Unknown command: ${command}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  const options: CliOptions = { ...values, input: values.input ?? [], json: values.json!, quiet: values.quiet! };
+  if (options.limit !== undefined && !(Number(options.limit) > 0)) {
+    console.error('❌ --limit must be a positive number');
+    return EXIT_CODES.usage;
+  }
+
+  // Library logging goes to stderr so stdout carries only results
+  console.log = console.error;
+  console.info = console.error;
+  installConsoleRedaction();
+
+  registerOpenSourceAdapters();
+  registerLocalStepHandlers();
+  registerNotifications();
+
+  try {
+    return await handler(positionals, options);
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      throw error;
+    }
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ error: error.message, details: error.details }, null, 2)}\n`);
+    } else {
+      console.error(`❌ ${error.message}`);
+      error.details.forEach((detail) => console.error(`  - ${detail}`));
+    }
+    return error.exitCode;
+  }
+}
+
+// Run the CLI as a process. Sets the exit code rather than exiting, so pending webhook retries
+// and run persistence finish. Connection failures are classified by the commands themselves
+// (exit 3), so anything that escapes them is unexpected.
+export async function run(argv: string[] = process.argv.slice(2)): Promise<void> {
+  try {
+    process.exitCode = await main(argv);
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exitCode = EXIT_CODES.internal;
+  }
+}
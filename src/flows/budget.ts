@@ -0,0 +1,327 @@
+import { extractPlaceholders, renderTemplate, TemplateContext } from './template';
+
+// Keeps a rendered prompt inside the model's context window. Backends truncate an overlong
+// prompt without saying so, so when upstream outputs push a prompt over budget the largest of
+// them are summarized or excerpted, or the task is run over parts of them and the partial
+// results merged.
+
+export const BUDGET_STRATEGIES = ['summarize', 'excerpt', 'chunk'] as const;
+
+export type BudgetStrategy = typeof BUDGET_STRATEGIES[number];
+
+// Step config `contextBudget`; `false` turns budgeting off for the step
+export interface ContextBudgetConfig {
+  strategy?: BudgetStrategy;
+  // Overrides the context length the backends report
+  contextLength?: number;
+}
+
+// How an upstream output was shrunk; a chunked output was reviewed whole, across several parts
+export interface CompressedOutput {
+  step: string;
+  method: 'summarized' | 'excerpted' | 'chunked';
+  originalTokens: number;
+  tokens: number;
+}
+
+// What was done to fit a prompt, recorded in the step's metadata
+export interface BudgetReport {
+  contextLength: number;
+  // Tokens left for the prompt once the completion is reserved
+  budgetTokens: number;
+  promptTokens: number;
+  finalPromptTokens: number;
+  strategy: BudgetStrategy;
+  compressed: CompressedOutput[];
+  // Chunk strategy: how many partial prompts were merged, and how many of their results were
+  // excerpted to fit the merge prompt
+  parts?: number;
+  excerptedPartials?: number;
+}
+
+// Sends a prompt to the step's model with the given output cap and returns the text
+export type PromptInvoker = (prompt: string, maxTokens: number) => Promise<string>;
+
+export interface FitOptions {
+  contextLength: number;
+  maxTokens?: number;
+  strategy?: BudgetStrategy;
+  invoke: PromptInvoker;
+}
+
+// Assumed when no backend serving a step reports its context length
+export const DEFAULT_CONTEXT_LENGTH = Number(process.env.DEFAULT_CONTEXT_LENGTH) || 8192;
+
+// Errs high: code and JSON tokenize denser than prose
+const CHARS_PER_TOKEN = 3.5;
+// Headroom for chat templates and estimation error
+const SAFETY_MARGIN = 0.1;
+// The adapters' default completion length
+const DEFAULT_MAX_TOKENS = 2048;
+// Below this a summary loses too much to be worth a call; excerpt instead
+const MIN_SUMMARY_TOKENS = 64;
+const OMITTED = '[covered in another part]';
+const SEE_PARTIAL_RESULTS = '[see the partial results below]';
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function usableWindow(contextLength: number): number {
+  return Math.floor(contextLength * (1 - SAFETY_MARGIN));
+}
+
+// Tokens a prompt may use. A completion reservation larger than half the window is capped,
+// so a generous maxTokens can't leave no room for the prompt.
+export function promptBudget(contextLength: number, maxTokens = DEFAULT_MAX_TOKENS): number {
+  return usableWindow(contextLength) - Math.min(maxTokens, Math.floor(contextLength / 2));
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+}
+
+// Split on line boundaries into pieces of at most maxTokens, cutting overlong lines
+export function splitText(text: string, maxTokens: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxTokens * CHARS_PER_TOKEN));
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const line of text.split('\n')) {
+    for (let start = 0; start === 0 || start < line.length; start += maxChars) {
+      const segment = line.slice(start, start + maxChars);
+      const candidate = current ? `${current}\n${segment}` : segment;
+      if (candidate.length > maxChars && current) {
+        pieces.push(current);
+        current = segment;
+      } else {
+        current = candidate;
+      }
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+// Keep the beginning and end, which usually carry the outline and the conclusions
+export function excerpt(text: string, maxTokens: number): string {
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const marker = `\n\n[… ${text.length - maxChars} characters omitted to fit the context window …]\n\n`;
+  const keep = Math.max(0, maxChars - marker.length);
+  const head = Math.ceil((keep * 2) / 3);
+  return `${text.slice(0, head)}${marker}${text.slice(text.length - (keep - head))}`;
+}
+
+// Share the available tokens out evenly, handing what small outputs don't need to larger ones.
+// An output referenced twice costs twice its size.
+function allocate(sizes: Map<string, { tokens: number; uses: number }>, available: number): Map<string, number> {
+  const allocation = new Map<string, number>();
+  const sorted = [...sizes].sort(([, a], [, b]) => a.tokens * a.uses - b.tokens * b.uses);
+  let remaining = available;
+
+  sorted.forEach(([name, { tokens, uses }], index) => {
+    const share = Math.floor(remaining / (sorted.length - index));
+    const granted = Math.min(tokens * uses, share);
+    allocation.set(name, Math.floor(granted / uses));
+    remaining -= granted;
+  });
+  return allocation;
+}
+
+function summaryPrompt(step: string, text: string, maxTokens: number): string {
+  return `Condense the following output of the "${step}" step to at most about ${Math.floor(maxTokens * 0.75)} words.
+Keep every concrete detail later steps rely on: names, interfaces, endpoints, file paths, versions and decisions.
+Drop repetition and explanation. Reply with the condensed text only.
+
+--- ${step} output ---
+${text}`;
+}
+
+// Summarize with the step's model, a chunk at a time when the text doesn't fit in one call.
+// Falls back to an excerpt when there's no room for useful summaries or a call fails.
+async function summarize(
+  step: string,
+  text: string,
+  maxTokens: number,
+  contextLength: number,
+  invoke: PromptInvoker
+): Promise<{ text: string; method: CompressedOutput['method'] }> {
+  const capacity = usableWindow(contextLength) - estimateTokens(summaryPrompt(step, '', maxTokens)) - maxTokens;
+  const chunks = splitText(text, Math.max(1, capacity));
+  const perChunk = Math.floor(maxTokens / chunks.length);
+  if (capacity <= 0 || perChunk < MIN_SUMMARY_TOKENS) {
+    return { text: excerpt(text, maxTokens), method: 'excerpted' };
+  }
+
+  try {
+    const summaries: string[] = [];
+    for (const chunk of chunks) {
+      summaries.push((await invoke(summaryPrompt(step, chunk, perChunk), perChunk)).trim());
+    }
+    // Models overshoot word limits; trim rather than spend another call
+    return { text: excerpt(summaries.join('\n\n'), maxTokens), method: 'summarized' };
+  } catch (error) {
+    console.warn(`⚠️ Could not summarize ${step} output, excerpting instead:`, error instanceof Error ? error.message : error);
+    return { text: excerpt(text, maxTokens), method: 'excerpted' };
+  }
+}
+
+function partPrompt(part: number, parts: number, prompt: string): string {
+  return `This is part ${part} of ${parts} of a task too large for one pass. Some material is marked ${OMITTED};
+respond using only the material included here, and the parts' results will be combined afterwards.
+
+${prompt}`;
+}
+
+function mergePrompt(task: string, partials: string[]): string {
+  return `The task below was too large for one pass, so it was run separately on ${partials.length} parts of its material.
+Combine the partial results into one complete response to the task: merge overlapping points, drop duplicates
+and resolve conflicts. Follow the task's requested output format exactly.
+
+--- Task ---
+${task}
+
+${partials.map((partial, index) => `--- Partial result ${index + 1} of ${partials.length} ---\n${partial}`).join('\n\n')}`;
+}
+
+// Run the task over parts of the upstream outputs, then build a prompt merging the partial results
+async function chunkPrompt(
+  template: string,
+  context: TemplateContext,
+  texts: Map<string, string>,
+  available: number,
+  budget: number,
+  maxTokens: number,
+  invoke: PromptInvoker
+): Promise<{ prompt: string; parts: number; excerptedPartials: number }> {
+  const overhead = estimateTokens(partPrompt(0, 0, '')) + texts.size * estimateTokens(OMITTED);
+  const room = Math.max(1, available - overhead);
+
+  // Pack pieces of every output into parts, in the order the prompt uses them
+  const parts: Map<string, string[]>[] = [];
+  let current = new Map<string, string[]>();
+  let used = 0;
+  for (const [name, text] of texts) {
+    for (const piece of splitText(text, room)) {
+      const tokens = estimateTokens(piece);
+      if (used + tokens > room && used > 0) {
+        parts.push(current);
+        current = new Map();
+        used = 0;
+      }
+      current.set(name, [...(current.get(name) ?? []), piece]);
+      used += tokens;
+    }
+  }
+  parts.push(current);
+
+  const partials: string[] = [];
+  for (const [index, part] of parts.entries()) {
+    const outputs = { ...context.outputs };
+    for (const name of texts.keys()) {
+      outputs[name] = part.get(name)?.join('\n') ?? OMITTED;
+    }
+    const prompt = partPrompt(index + 1, parts.length, renderTemplate(template, { ...context, outputs }));
+    partials.push((await invoke(prompt, maxTokens)).trim());
+  }
+
+  const task = renderTemplate(template, {
+    ...context,
+    outputs: { ...context.outputs, ...Object.fromEntries([...texts.keys()].map((name) => [name, SEE_PARTIAL_RESULTS])) },
+  });
+  // Partial results share whatever room the task leaves
+  const share = Math.floor((budget - estimateTokens(mergePrompt(task, partials.map(() => '')))) / partials.length);
+
+  return {
+    prompt: mergePrompt(task, partials.map((partial) => excerpt(partial, Math.max(0, share)))),
+    parts: parts.length,
+    excerptedPartials: partials.filter((partial) => estimateTokens(partial) > share).length,
+  };
+}
+
+// Render the template, compressing `{{step.output}}` values if the prompt would overflow the
+// window. Returns the report only when something had to change.
+export async function fitPrompt(
+  template: string,
+  context: TemplateContext,
+  options: FitOptions
+): Promise<{ prompt: string; report?: BudgetReport }> {
+  const prompt = renderTemplate(template, context);
+  const budget = promptBudget(options.contextLength, options.maxTokens);
+  const promptTokens = estimateTokens(prompt);
+  if (promptTokens <= budget) {
+    return { prompt };
+  }
+
+  const sizes = new Map<string, { tokens: number; uses: number }>();
+  const texts = new Map<string, string>();
+  for (const reference of extractPlaceholders(template)) {
+    const [name, field] = reference.split('.');
+    if (field === 'output') {
+      texts.set(name, asText(context.outputs[name]));
+      sizes.set(name, { tokens: estimateTokens(texts.get(name)!), uses: (sizes.get(name)?.uses ?? 0) + 1 });
+    }
+  }
+
+  const strategy = options.strategy ?? 'summarize';
+  const report = (finalPrompt: string, compressed: CompressedOutput[], extra: Partial<BudgetReport> = {}): BudgetReport => ({
+    contextLength: options.contextLength,
+    budgetTokens: budget,
+    promptTokens,
+    finalPromptTokens: estimateTokens(finalPrompt),
+    strategy,
+    compressed,
+    ...extra,
+  });
+
+  const bare = renderTemplate(template, {
+    ...context,
+    outputs: { ...context.outputs, ...Object.fromEntries([...texts.keys()].map((name) => [name, ''])) },
+  });
+  const available = budget - estimateTokens(bare);
+  if (available <= 0 || texts.size === 0) {
+    console.warn(`⚠️ Prompt needs ${promptTokens} tokens of a ${budget}-token budget and has no upstream outputs to compress`);
+    return { prompt, report: report(prompt, []) };
+  }
+
+  if (strategy === 'chunk') {
+    const chunked = await chunkPrompt(
+      template, context, texts, available, budget, options.maxTokens ?? DEFAULT_MAX_TOKENS, options.invoke
+    );
+    const compressed = [...sizes].map(([name, { tokens }]): CompressedOutput => ({
+      step: name, method: 'chunked', originalTokens: tokens, tokens,
+    }));
+    console.log(`✂️ Split ${[...texts.keys()].join(', ')} across ${chunked.parts} prompts to fit a ${options.contextLength}-token context window`);
+    return {
+      prompt: chunked.prompt,
+      report: report(chunked.prompt, compressed, { parts: chunked.parts, excerptedPartials: chunked.excerptedPartials }),
+    };
+  }
+
+  const allocation = allocate(sizes, available);
+  const compressed: CompressedOutput[] = [];
+  const outputs = { ...context.outputs };
+  await Promise.all([...texts].map(async ([name, text]) => {
+    const tokens = allocation.get(name)!;
+    const originalTokens = sizes.get(name)!.tokens;
+    if (originalTokens <= tokens) {
+      return;
+    }
+
+    const result = strategy === 'summarize'
+      ? await summarize(name, text, tokens, options.contextLength, options.invoke)
+      : { text: excerpt(text, tokens), method: 'excerpted' as const };
+    outputs[name] = result.text;
+    compressed.push({ step: name, method: result.method, originalTokens, tokens: estimateTokens(result.text) });
+  }));
+
+  const fitted = renderTemplate(template, { ...context, outputs });
+  console.log(`✂️ Compressed ${compressed.map((entry) => entry.step).join(', ')} to fit a ${options.contextLength}-token context window`);
+  return { prompt: fitted, report: report(fitted, compressed.sort((a, b) => a.step.localeCompare(b.step))) };
+}
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WorkflowDefinition } from 'bilko-flow';
+import YAML from 'yaml';
+import { resolvePromptTemplates } from '../prompts/library';
+import { researchToAppFlow } from './research-to-app-trial';
+import { referencedInputs, validateWorkflow, WorkflowInput } from './validate';
+
+export interface WorkflowEntry {
+  // The definition's name; runs record it as their workflowId
+  id: string;
+  title: string;
+  description?: string;
+  // Missing when the file could not be parsed
+  definition?: WorkflowDefinition;
+  inputs: WorkflowInput[];
+  // 'built-in' or the file the definition was loaded from
+  source: string;
+  // Validation problems; a workflow with errors is listed but cannot run
+  errors: string[];
+}
+
+// On disk, a workflow is a WorkflowDefinition plus an optional title and declared inputs.
+// Without `inputs`, every `{{name}}` placeholder becomes a required input.
+interface WorkflowFile extends WorkflowDefinition {
+  title?: string;
+  inputs?: WorkflowInput[];
+}
+
+const WORKFLOW_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+const BUILT_IN_WORKFLOWS: WorkflowFile[] = [
+  {
+    ...researchToAppFlow,
+    title: 'Research to App Trial',
+    inputs: [{ name: 'researchTopic', description: 'Research concept to turn into an application prototype' }],
+  },
+];
+
+function toEntry(file: WorkflowFile, source: string, fallbackId: string): WorkflowEntry {
+  const { title, inputs, ...rest } = file;
+  // Steps may name a library template instead of inlining their prompt
+  const { workflow: definition, errors: templateErrors } = Array.isArray(rest.steps)
+    ? resolvePromptTemplates(rest)
+    : { workflow: rest, errors: [] };
+  const declared = inputs ?? referencedInputs(definition).map((name) => ({ name }));
+  const errors = [
+    ...templateErrors,
+    ...(Array.isArray(declared) ? validateWorkflow(definition, declared) : ['inputs must be an array']),
+  ];
+  const id = typeof definition.name === 'string' && definition.name ? definition.name : fallbackId;
+
+  return {
+    id,
+    title: title || id,
+    description: definition.description,
+    definition,
+    inputs: Array.isArray(declared) ? declared : [],
+    source,
+    errors,
+  };
+}
+
+async function readWorkflowFile(file: string): Promise<WorkflowFile> {
+  const text = await fs.readFile(file, 'utf8');
+  const parsed = path.extname(file) === '.json' ? JSON.parse(text) : YAML.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('expected a workflow definition object');
+  }
+  return parsed as WorkflowFile;
+}
+
+// Built-in workflows plus every JSON/YAML definition in a directory. The directory is re-read
+// and each definition re-validated on every lookup, so edits apply without a restart.
+export class WorkflowCatalog {
+  constructor(
+    private readonly directory: string,
+    private readonly builtIns: WorkflowFile[] = BUILT_IN_WORKFLOWS
+  ) {}
+
+  async list(): Promise<WorkflowEntry[]> {
+    const entries = this.builtIns.map((workflow) => toEntry(workflow, 'built-in', workflow.name));
+
+    for (const file of await this.files()) {
+      const source = path.relative(process.cwd(), file);
+      const id = path.basename(file, path.extname(file));
+      let entry: WorkflowEntry;
+      try {
+        entry = toEntry(await readWorkflowFile(file), source, id);
+      } catch (error) {
+        entry = { id, title: id, inputs: [], source, errors: [error instanceof Error ? error.message : 'Unreadable file'] };
+      }
+
+      const existing = entries.find((candidate) => candidate.id === entry.id);
+      if (existing) {
+        entry.errors.push(`workflow ${entry.id} is already defined by ${existing.source}`);
+      }
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  // The first definition with this id, so a file can't shadow a built-in or an earlier file
+  async get(id: string): Promise<WorkflowEntry | undefined> {
+    return (await this.list()).find((entry) => entry.id === id);
+  }
+
+  private async files(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names
+      .filter((name) => WORKFLOW_EXTENSIONS.has(path.extname(name)))
+      .sort()
+      .map((name) => path.join(this.directory, name));
+  }
+}
+
+export const workflowCatalog = new WorkflowCatalog(
+  process.env.WORKFLOWS_DIR || path.join(process.cwd(), 'workflows')
+);
@@ -0,0 +1,138 @@
+import { compileWorkflow, WorkflowDefinition } from 'bilko-flow';
+import { isModelProvider } from '../models/registry';
+import { withoutLocalSteps } from '../steps/handlers';
+
+export interface StepOverrides {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Run-level model choices: a default provider/model for every model-calling step,
+// refined per step. Stored on the run so resumes re-apply it.
+export interface FlowConfiguration {
+  provider?: string;
+  model?: string;
+  steps?: Record<string, StepOverrides>;
+}
+
+export class FlowConfigurationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid flow configuration: ${errors.join('; ')}`);
+    this.name = 'FlowConfigurationError';
+  }
+}
+
+type FlowStep = WorkflowDefinition['steps'][number];
+
+function callsModel(step: FlowStep): boolean {
+  return typeof (step.config as Record<string, unknown>).provider === 'string';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateOverrides(label: string, overrides: StepOverrides, errors: string[]): void {
+  const { provider, model, temperature, maxTokens } = overrides;
+  if (provider !== undefined && typeof provider !== 'string') {
+    errors.push(`${label}: provider must be a string`);
+  }
+  if (model !== undefined && typeof model !== 'string') {
+    errors.push(`${label}: model must be a string`);
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    errors.push(`${label}: temperature must be a number between 0 and 2`);
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+    errors.push(`${label}: maxTokens must be a positive integer`);
+  }
+}
+
+// Pull a FlowConfiguration out of a request body ({ provider, model, stepOverrides }).
+// Throws FlowConfigurationError when stepOverrides isn't an object of objects.
+export function parseFlowConfiguration(body: Record<string, unknown>): FlowConfiguration {
+  const { provider, model, stepOverrides } = body;
+  const configuration: FlowConfiguration = {};
+
+  if (typeof provider === 'string' && provider) {
+    configuration.provider = provider;
+  }
+  if (typeof model === 'string' && model) {
+    configuration.model = model;
+  }
+  if (stepOverrides === undefined || stepOverrides === null) {
+    return configuration;
+  }
+  if (!isPlainObject(stepOverrides)) {
+    throw new FlowConfigurationError(['stepOverrides must be an object keyed by step ID']);
+  }
+
+  const errors = Object.entries(stepOverrides)
+    .filter(([, overrides]) => !isPlainObject(overrides))
+    .map(([stepId]) => `${stepId}: overrides must be an object`);
+  if (errors.length > 0) {
+    throw new FlowConfigurationError(errors);
+  }
+  configuration.steps = stepOverrides as Record<string, StepOverrides>;
+  return configuration;
+}
+
+// Apply defaults and per-step overrides to the model-calling steps, then compile the
+// result so an invalid combination is rejected before a run is created. Whether the
+// backends actually serve the chosen models is checked by modelRegistry.checkWorkflow.
+export function configureWorkflow(
+  workflow: WorkflowDefinition,
+  configuration: FlowConfiguration = {}
+): WorkflowDefinition {
+  const errors: string[] = [];
+  const stepOverrides = configuration.steps || {};
+
+  if (configuration.provider && !isModelProvider(configuration.provider)) {
+    errors.push(`Unknown provider: ${configuration.provider}`);
+  }
+  validateOverrides('default', configuration, errors);
+
+  for (const stepId of Object.keys(stepOverrides)) {
+    const step = workflow.steps.find((candidate) => candidate.id === stepId);
+    if (!step) {
+      errors.push(`Unknown step: ${stepId}`);
+    } else if (!callsModel(step)) {
+      errors.push(`Step ${stepId} does not call a model`);
+    } else {
+      validateOverrides(stepId, stepOverrides[stepId], errors);
+    }
+  }
+
+  const steps = workflow.steps.map((step) => {
+    const overrides = stepOverrides[step.id];
+    if (!callsModel(step) || (!configuration.provider && !configuration.model && !overrides)) {
+      return step;
+    }
+
+    const config = {
+      ...step.config,
+      ...(configuration.provider && { provider: configuration.provider }),
+      ...(configuration.model && { model: configuration.model }),
+      ...(overrides?.provider && { provider: overrides.provider }),
+      ...(overrides?.model && { model: overrides.model }),
+      ...(overrides?.temperature !== undefined && { temperature: overrides.temperature }),
+      ...(overrides?.maxTokens !== undefined && { maxTokens: overrides.maxTokens }),
+    } as Record<string, unknown>;
+
+    if (overrides?.provider && !isModelProvider(overrides.provider)) {
+      errors.push(`${step.id}: unknown provider ${overrides.provider}`);
+    }
+
+    return { ...step, config };
+  });
+
+  if (errors.length > 0) {
+    throw new FlowConfigurationError(errors);
+  }
+
+  const configured = { ...workflow, steps };
+  compileWorkflow(withoutLocalSteps(configured));
+  return configured;
+}
@@ -1,4 +1,93 @@
 import { WorkflowDefinition } from 'bilko-flow';
+import { promptConfig } from '../prompts/library';
+// Registers this workflow's prompt templates
+import '../prompts/research-to-app';
+import { JsonSchema } from './schema';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+export const researchAnalysisSchema: JsonSchema = {
+  type: 'object',
+  required: ['complexity', 'challenges', 'techStack', 'phases', 'risks'],
+  properties: {
+    complexity: { type: 'integer', minimum: 1, maximum: 10 },
+    challenges: stringList,
+    techStack: stringList,
+    phases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description', 'effort'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          effort: { type: 'string' }
+        }
+      }
+    },
+    risks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['risk', 'mitigation'],
+        properties: {
+          risk: { type: 'string' },
+          mitigation: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const architectureSchema: JsonSchema = {
+  type: 'object',
+  required: ['components', 'dataFlow', 'api', 'database', 'security'],
+  properties: {
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'responsibility'],
+        properties: {
+          name: { type: 'string' },
+          responsibility: { type: 'string' },
+          dependsOn: stringList
+        }
+      }
+    },
+    dataFlow: { type: 'string' },
+    api: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['method', 'path', 'description'],
+        properties: {
+          method: { type: 'string' },
+          path: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    },
+    database: {
+      type: 'object',
+      required: ['tables'],
+      properties: {
+        tables: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'columns'],
+            properties: {
+              name: { type: 'string' },
+              columns: stringList
+            }
+          }
+        }
+      }
+    },
+    security: stringList
+  }
+};
 
 export const researchToAppFlow: WorkflowDefinition = {
   name: 'research-to-app-trial',
@@ -13,19 +102,9 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'llama3:8b',
-        prompt: `Analyze this research topic and break it down into actionable development tasks:
-        
-        Research Topic: "{{researchTopic}}"
-        
-        Provide:
-        1. Technical complexity assessment (1-10)
-        2. Key technical challenges
-        3. Recommended technology stack (open-source only)
-        4. Development phases with estimated effort
-        5. Risk assessment and mitigation strategies
-        
-        Format as JSON with keys: complexity, challenges, techStack, phases, risks`,
+        ...promptConfig('research-to-app/analyze-research-topic', 1),
         responseFormat: { type: 'json_object' },
+        outputSchema: researchAnalysisSchema,
         maxTokens: 2000,
         temperature: 0.3
       },
@@ -38,19 +117,9 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'llama3:8b',
-        prompt: `Design the application architecture based on the research analysis:
-        
-        Analysis: "{{analyze-research-topic.output}}"
-        
-        Create a detailed architecture plan:
-        1. System components and their relationships
-        2. Data flow diagram (text description)
-        3. API structure and endpoints
-        4. Database schema design
-        5. Security considerations
-        
-        Format as JSON with keys: components, dataFlow, api, database, security`,
+        ...promptConfig('research-to-app/design-architecture', 1),
         responseFormat: { type: 'json_object' },
+        outputSchema: architectureSchema,
         maxTokens: 3000,
         temperature: 0.2
       },
@@ -63,18 +132,7 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'codellama',
-        prompt: `Generate the complete project structure and boilerplate code:
-        
-        Architecture: "{{design-architecture.output}}"
-        
-        Create:
-        1. Directory structure (tree format)
-        2. Package.json with open-source dependencies only
-        3. Configuration files (typescript, eslint, etc.)
-        4. Docker setup for development
-        5. CI/CD pipeline using GitHub Actions
-        
-        Provide as executable code blocks and configuration files.`,
+        ...promptConfig('research-to-app/generate-project-structure', 1),
         maxTokens: 4000,
         temperature: 0.1
       },
@@ -87,21 +145,15 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'codellama',
-        prompt: `Implement the core application components:
-        
-        Architecture: "{{design-architecture.output}}"
-        Project Structure: "{{generate-project-structure.output}}"
-        
-        Generate TypeScript code for:
-        1. Main application entry point
-        2. Core service classes
-        3. Data models and interfaces
-        4. API route handlers
-        5. Database connection and utilities
-        
-        Follow the architecture and use only open-source libraries.`,
+        ...promptConfig('research-to-app/create-core-components', 1),
         maxTokens: 5000,
-        temperature: 0.1
+        temperature: 0.1,
+        // Type-check offline and re-prompt with the tsc diagnostics
+        selfRepair: {
+          maxRounds: 2,
+          timeoutMs: 60000,
+          maxMemoryMb: 1024
+        }
       },
       dependencies: ['design-architecture', 'generate-project-structure']
     },
@@ -112,23 +164,11 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'codellama',
-        prompt: `Create comprehensive testing setup:
-        
-        Architecture: "{{design-architecture.output}}"
-        Components: "{{create-core-components.output}}"
-        
-        Generate:
-        1. Unit tests for core functions
-        2. Integration tests for API endpoints
-        3. E2E test scenarios
-        4. Test utilities and mocks
-        5. Performance test setup
-        
-        Use Vitest and Testing Library (open-source).`,
+        ...promptConfig('research-to-app/setup-testing', 1),
         maxTokens: 4000,
         temperature: 0.1
       },
-      dependencies: ['create-core-components']
+      dependencies: ['design-architecture', 'create-core-components']
     },
     
     {
@@ -137,21 +177,11 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'llama3:8b',
-        prompt: `Generate comprehensive documentation:
-        
-        Architecture: "{{design-architecture.output}}"
-        Implementation: "{{create-core-components.output}}"
-        
-        Create:
-        1. README.md with setup instructions
-        2. API documentation (OpenAPI specification)
-        3. Developer onboarding guide
-        4. Deployment documentation
-        5. Contributing guidelines`,
+        ...promptConfig('research-to-app/create-documentation', 1),
         maxTokens: 3000,
         temperature: 0.2
       },
-      dependencies: ['create-core-components']
+      dependencies: ['design-architecture', 'create-core-components']
     },
     
     {
@@ -160,51 +190,36 @@ export const researchToAppFlow: WorkflowDefinition = {
       config: {
         provider: 'ollama',
         model: 'codellama',
-        prompt: `Create deployment configuration:
-        
-        Project: "{{generate-project-structure.output}}"
-        Documentation: "{{create-documentation.output}}"
-        
-        Generate:
-        1. Docker Compose for local development
-        2. Kubernetes deployment manifests
-        3. Nginx configuration
-        4. Environment variable templates
-        5. Health check endpoints
-        
-        Focus on self-hosted, open-source solutions.`,
+        ...promptConfig('research-to-app/setup-deployment', 1),
         maxTokens: 3000,
         temperature: 0.1
       },
       dependencies: ['generate-project-structure', 'create-documentation']
     },
     
+    {
+      id: 'verify-generated-project',
+      type: 'sandbox.verify-project',
+      config: {
+        // For tsc; the generated code is type-checked only, never run
+        timeoutMs: 120000,
+        maxMemoryMb: 1024
+      },
+      dependencies: ['generate-project-structure', 'create-core-components', 'setup-testing']
+    },
     {
       id: 'quality-assurance',
       type: 'ai.generate-text',
       config: {
         provider: 'vllm',
         model: 'mistralai/Mistral-7B-Instruct-v0.1',
-        prompt: `Perform quality assurance review of the generated application:
-        
-        Architecture: "{{design-architecture.output}}"
-        Code: "{{create-core-components.output}}"
-        Tests: "{{setup-testing.output}}"
-        Documentation: "{{create-documentation.output}}"
-        Deployment: "{{setup-deployment.output}}"
-        
-        Analyze and report on:
-        1. Code quality and best practices
-        2. Security vulnerabilities
-        3. Performance bottlenecks
-        4. Documentation completeness
-        5. Deployment readiness
-        
-        Provide specific recommendations and improvements needed.`,
+        ...promptConfig('research-to-app/quality-assurance', 1),
         maxTokens: 2500,
-        temperature: 0.3
+        temperature: 0.3,
+        // Reviews every upstream output; when they don't fit, review them in parts and merge
+        contextBudget: { strategy: 'chunk' }
       },
-      dependencies: ['create-core-components', 'setup-testing', 'create-documentation', 'setup-deployment']
+      dependencies: ['design-architecture', 'create-core-components', 'setup-testing', 'verify-generated-project', 'create-documentation', 'setup-deployment']
     }
   ],
   
@@ -225,22 +240,6 @@ export const researchToAppFlow: WorkflowDefinition = {
       maxRetries: 2,
       backoffStrategy: 'exponential'
     }
-  },
-  
-  notifications: {
-    onSuccess: [
-      {
-        type: 'webhook',
-        url: 'https://hooks.slack.com/your-webhook-url',
-        payload: { message: 'Research to app trial completed successfully!' }
-      }
-    ],
-    onFailure: [
-      {
-        type: 'webhook',
-        url: 'https://hooks.slack.com/your-webhook-url',
-        payload: { message: 'Research to app trial failed!' }
-      }
-    ]
   }
+  // Notifications are configured per deployment in NOTIFICATIONS_FILE (see src/notifications)
 };
\ No newline at end of file
@@ -0,0 +1,60 @@
+import Ajv, { ValidateFunction } from 'ajv';
+
+export type JsonSchema = Record<string, unknown>;
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new WeakMap<JsonSchema, ValidateFunction>();
+
+function validatorFor(schema: JsonSchema): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+// Models often wrap JSON in prose or a fenced block; take the outermost object or array
+export function parseJsonOutput(raw: unknown): unknown {
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : raw;
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+
+  if (start === -1 || end < start) {
+    throw new Error('Response does not contain a JSON value');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+// Returns human-readable validation errors; empty when the value matches the schema
+export function validateAgainstSchema(schema: JsonSchema, value: unknown): string[] {
+  const validate = validatorFor(schema);
+  if (validate(value)) {
+    return [];
+  }
+
+  return (validate.errors || []).map((error) => `${error.instancePath || '(root)'} ${error.message}`);
+}
+
+// Follow-up prompt asking the model to fix an output that failed validation
+export function buildRepairPrompt(prompt: string, previousOutput: unknown, errors: string[]): string {
+  const previous = typeof previousOutput === 'string' ? previousOutput : JSON.stringify(previousOutput);
+
+  return `${prompt}
+
+Your previous response did not match the required JSON schema.
+
+Previous response:
+${previous}
+
+Validation errors:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Respond with only the corrected JSON object.`;
+}
@@ -0,0 +1,35 @@
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+(?:\.[\w-]+)?)\s*\}\}/g;
+
+export interface TemplateContext {
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+}
+
+// List the placeholders referenced by a prompt, e.g. `researchTopic` or `design-architecture.output`
+export function extractPlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Fill `{{input}}` and `{{step-id.output}}` placeholders from run inputs and upstream outputs
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, reference: string) => {
+    const [name, field] = reference.split('.');
+
+    if (field === 'output') {
+      if (!(name in context.outputs)) {
+        throw new Error(`Template references output of step "${name}" which has not run`);
+      }
+      return stringifyValue(context.outputs[name]);
+    }
+
+    if (!field && name in context.inputs) {
+      return stringifyValue(context.inputs[name]);
+    }
+
+    throw new Error(`Unknown template placeholder: ${placeholder}`);
+  });
+}
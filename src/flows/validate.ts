@@ -0,0 +1,202 @@
+import { compileWorkflow, WorkflowDefinition } from 'bilko-flow';
+import { isModelProvider } from '../models/registry';
+import { withoutLocalSteps } from '../steps/handlers';
+import { BUDGET_STRATEGIES } from './budget';
+import { extractPlaceholders } from './template';
+
+// An input a workflow's prompts reference as `{{name}}`, supplied when a run starts
+export interface WorkflowInput {
+  name: string;
+  description?: string;
+  // Defaults to true unless a default is given
+  required?: boolean;
+  default?: unknown;
+}
+
+export class WorkflowInputError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid workflow inputs: ${errors.join('; ')}`);
+    this.name = 'WorkflowInputError';
+  }
+}
+
+const WORKFLOW_NAME_PATTERN = /^[\w-]+$/;
+
+type FlowStep = WorkflowDefinition['steps'][number];
+
+function promptOf(step: FlowStep): string | undefined {
+  const prompt = (step.config as Record<string, unknown> | undefined)?.prompt;
+  return typeof prompt === 'string' ? prompt : undefined;
+}
+
+// Every input placeholder used by the workflow's prompts, in first-use order
+export function referencedInputs(workflow: WorkflowDefinition): string[] {
+  const names = workflow.steps.flatMap((step) =>
+    extractPlaceholders(promptOf(step) ?? '').filter((reference) => !reference.includes('.'))
+  );
+  return [...new Set(names)];
+}
+
+// Report one dependency cycle as "a -> b -> a", or undefined if the graph is acyclic
+function findCycle(steps: FlowStep[]): string | undefined {
+  const dependencies = new Map(steps.map((step) => [step.id, step.dependencies || []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string | undefined => {
+    if (state.get(id) === 'done' || !dependencies.has(id)) {
+      return undefined;
+    }
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id].join(' -> ');
+    }
+
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dependency of dependencies.get(id)!) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state.set(id, 'done');
+    return undefined;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
+
+// Structural checks a definition must pass before it is offered for execution: unique step
+// IDs, known dependencies without cycles, placeholders that name a declared input or the
+// output of a direct dependency, and known model providers. Finally bilko-flow compiles it.
+export function validateWorkflow(workflow: WorkflowDefinition, inputs: WorkflowInput[]): string[] {
+  const errors: string[] = [];
+
+  if (typeof workflow.name !== 'string' || !WORKFLOW_NAME_PATTERN.test(workflow.name)) {
+    errors.push('name must contain only letters, digits, "-" and "_"');
+  }
+  if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+    return errors;
+  }
+
+  const stepIds = new Set<string>();
+  const errorsBefore = errors.length;
+  for (const step of workflow.steps) {
+    if (typeof step.id !== 'string' || !step.id) {
+      errors.push('every step needs an id');
+    } else if (stepIds.has(step.id)) {
+      errors.push(`duplicate step id: ${step.id}`);
+    }
+    stepIds.add(step.id);
+  }
+  if (errors.length > errorsBefore) {
+    return errors;
+  }
+
+  const inputNames = new Set(inputs.map((input) => input.name));
+
+  for (const step of workflow.steps) {
+    for (const dependency of step.dependencies || []) {
+      if (!stepIds.has(dependency)) {
+        errors.push(`${step.id}: depends on unknown step ${dependency}`);
+      }
+    }
+
+    const { provider, fallbacks, contextBudget } = (step.config || {}) as Record<string, unknown>;
+    if (provider !== undefined && (typeof provider !== 'string' || !isModelProvider(provider))) {
+      errors.push(`${step.id}: unknown provider ${String(provider)}`);
+    }
+    if (Array.isArray(fallbacks)) {
+      for (const fallback of fallbacks as { provider?: unknown }[]) {
+        if (typeof fallback?.provider !== 'string' || !isModelProvider(fallback.provider)) {
+          errors.push(`${step.id}: unknown fallback provider ${String(fallback?.provider)}`);
+        }
+      }
+    }
+    if (contextBudget !== undefined && contextBudget !== false) {
+      const { strategy, contextLength } = (contextBudget || {}) as Record<string, unknown>;
+      if (strategy !== undefined && !(BUDGET_STRATEGIES as readonly unknown[]).includes(strategy)) {
+        errors.push(`${step.id}: contextBudget.strategy must be one of ${BUDGET_STRATEGIES.join(', ')}`);
+      }
+      if (contextLength !== undefined && !(typeof contextLength === 'number' && contextLength > 0)) {
+        errors.push(`${step.id}: contextBudget.contextLength must be a positive number`);
+      }
+    }
+  }
+
+  const cycle = findCycle(workflow.steps);
+  if (cycle) {
+    errors.push(`dependency cycle: ${cycle}`);
+    return errors;
+  }
+
+  for (const step of workflow.steps) {
+    // Only direct dependencies count: relying on a transitive one breaks silently when the
+    // step in between is rewired
+    const dependencies = new Set(step.dependencies || []);
+    for (const reference of extractPlaceholders(promptOf(step) ?? '')) {
+      const [name, field] = reference.split('.');
+      if (!field) {
+        if (!inputNames.has(name)) {
+          errors.push(`${step.id}: {{${reference}}} is not a declared input`);
+        }
+      } else if (field !== 'output') {
+        errors.push(`${step.id}: {{${reference}}} is not a supported placeholder; use {{step-id.output}}`);
+      } else if (!stepIds.has(name)) {
+        errors.push(`${step.id}: {{${reference}}} references unknown step ${name}`);
+      } else if (!dependencies.has(name)) {
+        errors.push(`${step.id}: {{${reference}}} references ${name}, which is not a declared dependency`);
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    try {
+      compileWorkflow(withoutLocalSteps(workflow));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Workflow failed to compile');
+    }
+  }
+
+  return errors;
+}
+
+// Apply defaults and check a run's inputs against the workflow's declared inputs
+export function resolveWorkflowInputs(
+  declared: WorkflowInput[],
+  provided: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const errors: string[] = [];
+  const known = new Set(declared.map((input) => input.name));
+  const inputs: Record<string, unknown> = {};
+
+  for (const name of Object.keys(provided)) {
+    if (!known.has(name)) {
+      errors.push(`Unknown input: ${name}`);
+    }
+  }
+
+  for (const input of declared) {
+    const value = provided[input.name] ?? input.default;
+    const required = input.required ?? input.default === undefined;
+    if ((value === undefined || value === '') && required) {
+      errors.push(`${input.name} is required`);
+      continue;
+    }
+    // Optional inputs still render, as an empty string
+    inputs[input.name] = value ?? '';
+  }
+
+  if (errors.length > 0) {
+    throw new WorkflowInputError(errors);
+  }
+  return inputs;
+}
@@ -0,0 +1,78 @@
+import { MetricsRegistry } from './prometheus';
+
+export { PROMETHEUS_CONTENT_TYPE } from './prometheus';
+
+// Process-wide metrics served at GET /metrics. Model call metrics are labelled by
+// provider, model and step so models can be compared step by step.
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const llmRequests = metricsRegistry.counter(
+  'llm_requests_total',
+  'Model calls sent to a backend, by outcome'
+);
+
+export const llmErrors = metricsRegistry.counter(
+  'llm_errors_total',
+  'Failed model calls, by adapter and error class (connection, http_<status>, malformed, aborted, unknown)'
+);
+
+export const llmPromptTokens = metricsRegistry.counter(
+  'llm_prompt_tokens_total',
+  'Prompt tokens reported by the backend'
+);
+
+export const llmCompletionTokens = metricsRegistry.counter(
+  'llm_completion_tokens_total',
+  'Completion tokens reported by the backend'
+);
+
+export const llmRequestDuration = metricsRegistry.histogram(
+  'llm_request_duration_seconds',
+  'Wall time of a model call, excluding time queued for the backend',
+  [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+);
+
+export const llmTimeToFirstToken = metricsRegistry.histogram(
+  'llm_time_to_first_token_seconds',
+  'Time from sending a streamed model call to its first token',
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+export const llmTokensPerSecond = metricsRegistry.histogram(
+  'llm_generation_tokens_per_second',
+  'Completion tokens per second after the first token',
+  [1, 2, 5, 10, 20, 50, 100, 200]
+);
+
+export const llmQueueWait = metricsRegistry.histogram(
+  'llm_queue_wait_seconds',
+  'Time a model call waited for a free slot on its backend',
+  [0, 0.1, 0.5, 1, 5, 10, 30, 60, 300]
+);
+
+export const llmCacheLookups = metricsRegistry.counter(
+  'llm_cache_lookups_total',
+  'Response cache lookups, by result (hit or miss)'
+);
+
+export const llmCachedTokens = metricsRegistry.counter(
+  'llm_cached_tokens_total',
+  'Tokens of responses served from the response cache instead of the backend, by kind (prompt or completion)'
+);
+
+export const webhookDeliveries = metricsRegistry.counter(
+  'webhook_deliveries_total',
+  'Run notifications sent to webhooks, by event and outcome (delivered or failed, after retries)'
+);
+
+export const workflowRuns = metricsRegistry.counter(
+  'workflow_runs_total',
+  'Finished workflow runs, by final status'
+);
+
+export const workflowStepDuration = metricsRegistry.histogram(
+  'workflow_step_duration_seconds',
+  'Wall time of a workflow step, including queueing and repair rounds',
+  [1, 5, 10, 30, 60, 120, 300, 600, 1800]
+);
@@ -0,0 +1,42 @@
+import type { ModelProvider } from './registry';
+
+export interface ModelCandidate {
+  provider: ModelProvider;
+  model: string;
+}
+
+// The same checkpoint under each backend's naming scheme, so a step pinned to one backend
+// can be served by another
+const MODEL_FAMILIES: Partial<Record<ModelProvider, string>>[] = [
+  { ollama: 'llama2', vllm: 'meta-llama/Llama-2-7b-chat-hf', tgi: 'meta-llama/Llama-2-7b-chat-hf' },
+  { ollama: 'llama3:8b', vllm: 'meta-llama/Llama-3-8B-Instruct', tgi: 'meta-llama/Llama-3-8B-Instruct' },
+  { ollama: 'mistral', vllm: 'mistralai/Mistral-7B-Instruct-v0.1', tgi: 'mistralai/Mistral-7B-Instruct-v0.1' },
+  { ollama: 'codellama', vllm: 'codellama/CodeLlama-7b-Instruct-hf', tgi: 'codellama/CodeLlama-7b-Instruct-hf' },
+];
+
+function sameModel(provider: ModelProvider, a: string, b: string): boolean {
+  return a === b || (provider === 'ollama' && a.replace(/:latest$/, '') === b.replace(/:latest$/, ''));
+}
+
+// Ordered backends to try for a step: its own provider/model first, then either the step's
+// explicit `fallbacks` or the same model family on the other backends. `false` disables routing.
+export function stepCandidates(
+  provider: ModelProvider,
+  model: string,
+  fallbacks?: ModelCandidate[] | false
+): ModelCandidate[] {
+  const primary = { provider, model };
+  if (fallbacks === false) {
+    return [primary];
+  }
+  if (fallbacks) {
+    return [primary, ...fallbacks];
+  }
+
+  const family = MODEL_FAMILIES.find((entry) => entry[provider] && sameModel(provider, entry[provider]!, model));
+  const equivalents = Object.entries(family || {})
+    .filter(([candidate]) => candidate !== provider)
+    .map(([candidate, equivalent]) => ({ provider: candidate as ModelProvider, model: equivalent! }));
+
+  return [primary, ...equivalents];
+}
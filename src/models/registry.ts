@@ -0,0 +1,224 @@
+import { WorkflowDefinition } from 'bilko-flow';
+import { ModelCandidate, stepCandidates } from './families';
+
+// Asks each inference backend which models it actually serves, instead of trusting a static list
+
+export const MODEL_PROVIDERS = ['ollama', 'vllm', 'tgi'] as const;
+
+export type ModelProvider = typeof MODEL_PROVIDERS[number];
+
+export interface ModelInfo {
+  id: string;
+  provider: ModelProvider;
+  contextLength?: number;
+  quantization?: string;
+  parameterSize?: string;
+  family?: string;
+}
+
+export interface ProviderModels {
+  provider: ModelProvider;
+  baseUrl: string;
+  status: 'online' | 'offline';
+  models: ModelInfo[];
+  error?: string;
+  fetchedAt: string;
+}
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+const DEFAULT_TTL_MS = 60_000;
+
+export const DEFAULT_BASE_URLS: Record<ModelProvider, string> = {
+  ollama: process.env.OLLAMA_URL || 'http://localhost:11434',
+  vllm: process.env.VLLM_URL || 'http://localhost:8000',
+  tgi: process.env.TGI_URL || 'http://localhost:8080',
+};
+
+export function isModelProvider(provider: string): provider is ModelProvider {
+  return (MODEL_PROVIDERS as readonly string[]).includes(provider);
+}
+
+async function getJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}: ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+interface OllamaTags {
+  models: {
+    name: string;
+    details?: { family?: string; parameter_size?: string; quantization_level?: string };
+  }[];
+}
+
+interface OllamaShow {
+  model_info?: Record<string, unknown>;
+}
+
+// Context length is only reported per model, under "<architecture>.context_length"
+async function ollamaContextLength(baseUrl: string, name: string): Promise<number | undefined> {
+  try {
+    const { model_info: info = {} } = await getJson<OllamaShow>(`${baseUrl}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    const key = Object.keys(info).find((field) => field.endsWith('.context_length'));
+    return key ? Number(info[key]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function discoverOllama(baseUrl: string): Promise<ModelInfo[]> {
+  const { models } = await getJson<OllamaTags>(`${baseUrl}/api/tags`);
+
+  return Promise.all(
+    models.map(async (model) => ({
+      id: model.name,
+      provider: 'ollama' as const,
+      contextLength: await ollamaContextLength(baseUrl, model.name),
+      quantization: model.details?.quantization_level,
+      parameterSize: model.details?.parameter_size,
+      family: model.details?.family,
+    }))
+  );
+}
+
+interface OpenAIModelList {
+  data: { id: string; max_model_len?: number }[];
+}
+
+async function discoverVllm(baseUrl: string): Promise<ModelInfo[]> {
+  const { data } = await getJson<OpenAIModelList>(`${baseUrl}/v1/models`);
+  return data.map((model) => ({ id: model.id, provider: 'vllm' as const, contextLength: model.max_model_len }));
+}
+
+interface TgiInfo {
+  model_id: string;
+  model_dtype?: string;
+  quantize?: string | null;
+  max_total_tokens?: number;
+}
+
+// A TGI server hosts exactly one model
+async function discoverTgi(baseUrl: string): Promise<ModelInfo[]> {
+  const info = await getJson<TgiInfo>(`${baseUrl}/info`);
+  return [{
+    id: info.model_id,
+    provider: 'tgi',
+    contextLength: info.max_total_tokens,
+    quantization: info.quantize || info.model_dtype,
+  }];
+}
+
+const DISCOVERERS: Record<ModelProvider, (baseUrl: string) => Promise<ModelInfo[]>> = {
+  ollama: discoverOllama,
+  vllm: discoverVllm,
+  tgi: discoverTgi,
+};
+
+// Ollama resolves a bare name to its ":latest" tag
+function findModel(provider: ModelProvider, models: ModelInfo[], model: string): ModelInfo | undefined {
+  return models.find((candidate) =>
+    candidate.id === model || (provider === 'ollama' && candidate.id === `${model}:latest`)
+  );
+}
+
+export function baseUrlFor(provider: ModelProvider, modelConfigs: Record<string, unknown>): string {
+  const config = modelConfigs[provider] as { baseUrl?: unknown } | undefined;
+  return typeof config?.baseUrl === 'string' && config.baseUrl ? config.baseUrl : DEFAULT_BASE_URLS[provider];
+}
+
+// Discovery results per backend, cached for a TTL; concurrent lookups share one request
+export class ModelRegistry {
+  private cache = new Map<string, { expiresAt: number; result: Promise<ProviderModels> }>();
+
+  constructor(private readonly ttlMs = DEFAULT_TTL_MS) {}
+
+  provider(provider: ModelProvider, baseUrl = DEFAULT_BASE_URLS[provider], refresh = false): Promise<ProviderModels> {
+    const key = `${provider}|${baseUrl}`;
+    const cached = this.cache.get(key);
+    if (cached && !refresh && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const result = DISCOVERERS[provider](baseUrl).then(
+      (models): ProviderModels => ({
+        provider, baseUrl, status: 'online', models, fetchedAt: new Date().toISOString(),
+      }),
+      (error): ProviderModels => ({
+        provider,
+        baseUrl,
+        status: 'offline',
+        models: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fetchedAt: new Date().toISOString(),
+      })
+    );
+
+    this.cache.set(key, { expiresAt: Date.now() + this.ttlMs, result });
+    return result;
+  }
+
+  list(modelConfigs: Record<string, unknown> = {}, refresh = false): Promise<ProviderModels[]> {
+    return Promise.all(
+      MODEL_PROVIDERS.map((provider) => this.provider(provider, baseUrlFor(provider, modelConfigs), refresh))
+    );
+  }
+
+  // Why a candidate can't serve right now, or undefined if its backend is up and has the model
+  async unavailable(candidate: ModelCandidate, modelConfigs: Record<string, unknown> = {}): Promise<string | undefined> {
+    const backend = await this.provider(candidate.provider, baseUrlFor(candidate.provider, modelConfigs));
+    if (backend.status === 'offline') {
+      return `${candidate.provider} is unreachable at ${backend.baseUrl} (${backend.error})`;
+    }
+    if (!findModel(candidate.provider, backend.models, candidate.model)) {
+      return `model "${candidate.model}" is not served by ${candidate.provider} at ${backend.baseUrl}`;
+    }
+    return undefined;
+  }
+
+  // The smallest context window reported for any of the candidates being served, so a prompt
+  // sized to it fits whichever one the router picks
+  async contextLength(candidates: ModelCandidate[], modelConfigs: Record<string, unknown> = {}): Promise<number | undefined> {
+    const lengths = await Promise.all(candidates.map(async (candidate) => {
+      const backend = await this.provider(candidate.provider, baseUrlFor(candidate.provider, modelConfigs));
+      return findModel(candidate.provider, backend.models, candidate.model)?.contextLength;
+    }));
+    const known = lengths.filter((length): length is number => typeof length === 'number' && length > 0);
+    return known.length > 0 ? Math.min(...known) : undefined;
+  }
+
+  // Pre-flight: one message per step for which no routing candidate is being served
+  async checkWorkflow(
+    workflow: WorkflowDefinition,
+    modelConfigs: Record<string, unknown> = {},
+    stepIds?: Set<string>
+  ): Promise<string[]> {
+    const problems: string[] = [];
+
+    for (const step of workflow.steps) {
+      const { provider, model, fallbacks } = step.config as Record<string, unknown>;
+      if (typeof provider !== 'string' || typeof model !== 'string' || (stepIds && !stepIds.has(step.id))) {
+        continue;
+      }
+      if (!isModelProvider(provider)) {
+        problems.push(`${step.id}: unknown provider ${provider}`);
+        continue;
+      }
+
+      const candidates = stepCandidates(provider, model, fallbacks as ModelCandidate[] | false | undefined);
+      const reasons = await Promise.all(candidates.map((candidate) => this.unavailable(candidate, modelConfigs)));
+      if (reasons.every(Boolean)) {
+        problems.push(`${step.id}: ${reasons.join('; ')}`);
+      }
+    }
+
+    return problems;
+  }
+}
+
+export const modelRegistry = new ModelRegistry(Number(process.env.MODEL_REGISTRY_TTL_MS) || DEFAULT_TTL_MS);
@@ -0,0 +1,303 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { webhookDeliveries } from '../metrics';
+import { runRegistry, RunRegistry } from '../runs/registry';
+import { RunEvent, RunRecord } from '../runs/types';
+import { resolveSecrets } from '../secrets';
+import { Delivery, deliveryLog, NOTIFICATION_EVENTS, NotificationEvent } from './log';
+
+export { deliveryLog, NOTIFICATION_EVENTS } from './log';
+export type { Delivery, NotificationEvent } from './log';
+
+// A webhook that receives run notifications, configured in NOTIFICATIONS_FILE
+export interface WebhookTarget {
+  name?: string;
+  url: string;
+  // Defaults to every event
+  events?: NotificationEvent[];
+  // Workflow IDs to notify about; defaults to all
+  workflows?: string[];
+  // Name of the secret (environment or secrets file) holding the HMAC key
+  signingSecret?: string;
+  // JSON template; strings may use the {{variables}} of NotificationContext
+  payload?: unknown;
+  maxAttempts?: number;
+}
+
+// Variables available to payload templates
+export interface NotificationContext {
+  event: NotificationEvent;
+  runId: string;
+  workflowId: string;
+  topic: string;
+  status: string;
+  failedStep: string;
+  error: string;
+  durationMs: number;
+  duration: string;
+  link: string;
+  summary: string;
+  timestamp: string;
+}
+
+const DEFAULT_SIGNING_SECRET = 'WEBHOOK_SIGNING_SECRET';
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const BACKOFF_BASE_MS = Number(process.env.NOTIFICATIONS_RETRY_BASE_MS) || 1000;
+const BACKOFF_MAX_MS = 60_000;
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Slack-compatible `text` plus the run details as fields
+const DEFAULT_PAYLOAD = {
+  text: '{{summary}}',
+  event: '{{event}}',
+  runId: '{{runId}}',
+  workflowId: '{{workflowId}}',
+  topic: '{{topic}}',
+  status: '{{status}}',
+  failedStep: '{{failedStep}}',
+  error: '{{error}}',
+  durationMs: '{{durationMs}}',
+  link: '{{link}}',
+};
+
+const notificationsFile = process.env.NOTIFICATIONS_FILE || path.join(process.cwd(), 'data', 'notifications.json');
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function isValidTarget(target: WebhookTarget): boolean {
+  try {
+    const { protocol } = new URL(target.url);
+    return (protocol === 'http:' || protocol === 'https:')
+      && (target.events ?? []).every((event) => (NOTIFICATION_EVENTS as readonly string[]).includes(event));
+  } catch {
+    return false;
+  }
+}
+
+// Re-read on every notification so edits apply without a restart; invalid targets are skipped
+export async function loadWebhookTargets(file = notificationsFile): Promise<WebhookTarget[]> {
+  let parsed: { webhooks?: WebhookTarget[] };
+  try {
+    parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return (Array.isArray(parsed.webhooks) ? parsed.webhooks : []).filter((target) => {
+    if (!isValidTarget(target)) {
+      console.warn(`⚠️ Ignoring invalid webhook ${target?.name ?? target?.url ?? ''} in ${file}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Fill {{variables}} in every string of the template. A string that is only a placeholder
+// takes the variable's own type, so `"{{durationMs}}"` renders as a number.
+export function renderPayload(template: unknown, context: NotificationContext): unknown {
+  if (typeof template === 'string') {
+    const whole = /^\{\{\s*(\w+)\s*\}\}$/.exec(template);
+    if (whole && whole[1] in context) {
+      return context[whole[1] as keyof NotificationContext];
+    }
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in context ? String(context[name as keyof NotificationContext]) : placeholder
+    );
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderPayload(item, context));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderPayload(value, context)]));
+  }
+  return template;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as X-Webhook-Signature: sha256=<hex>.
+// Receivers should also reject stale timestamps to stop replays.
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function notificationContext(
+  event: NotificationEvent,
+  run: RunRecord,
+  failure?: { step?: string; error?: string }
+): NotificationContext {
+  const durationMs = (run.finishedAt ? Date.parse(run.finishedAt) : Date.now()) - Date.parse(run.createdAt);
+  const topic = String(run.inputs.researchTopic ?? Object.values(run.inputs).find((value) => typeof value === 'string') ?? '');
+  const failedStep = failure?.step ?? '';
+  const error = failure?.error ?? '';
+  const baseUrl = process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`;
+  const shortId = run.id.slice(0, 8);
+
+  const summary = {
+    'run-completed': `✅ ${run.workflowId} run ${shortId} completed in ${formatDuration(durationMs)}`,
+    'run-failed': `❌ ${run.workflowId} run ${shortId} failed${failedStep ? ` at ${failedStep}` : ''}: ${error}`,
+    'step-failed': `⚠️ ${run.workflowId} run ${shortId}: step ${failedStep} failed: ${error}`,
+  }[event];
+
+  return {
+    event,
+    runId: run.id,
+    workflowId: run.workflowId,
+    topic,
+    status: run.status,
+    failedStep,
+    error,
+    durationMs,
+    duration: formatDuration(durationMs),
+    link: `${baseUrl}/api/runs/${run.id}`,
+    summary: topic ? `${summary} (${topic})` : summary,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function targetLabel(target: WebhookTarget): string {
+  return target.name || new URL(target.url).host;
+}
+
+// Network errors, timeouts, 429 and 5xx are retried; other responses are final
+function isRetryable(status?: number): boolean {
+  return status === undefined || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// POST one notification, retrying with exponential backoff, and log every attempt
+async function deliver(target: WebhookTarget, context: NotificationContext): Promise<Delivery> {
+  const delivery: Delivery = {
+    id: uuidv4(),
+    event: context.event,
+    target: targetLabel(target),
+    ...(context.event === 'step-failed' && { stepId: context.failedStep }),
+    status: 'pending',
+    attempts: [],
+    createdAt: new Date().toISOString(),
+  };
+  const save = () => deliveryLog.save(context.runId, delivery).catch((error) => {
+    console.warn(`⚠️ Could not write delivery log for run ${context.runId}:`, error instanceof Error ? error.message : error);
+  });
+
+  const finish = async (status: Delivery['status']) => {
+    delivery.status = status;
+    delivery.finishedAt = new Date().toISOString();
+    webhookDeliveries.inc({ event: context.event, outcome: status });
+    await save();
+    if (status === 'failed') {
+      console.warn(`⚠️ ${context.event} notification to ${delivery.target} failed after ${delivery.attempts.length} attempt(s)`);
+    }
+    return delivery;
+  };
+
+  const secretName = target.signingSecret || DEFAULT_SIGNING_SECRET;
+  let secret: string;
+  try {
+    secret = (await resolveSecrets([{ name: secretName }]))[secretName];
+  } catch (error) {
+    delivery.attempts.push({
+      at: new Date().toISOString(),
+      error: `Not sent: ${error instanceof Error ? error.message : 'no signing secret'}`,
+      durationMs: 0,
+    });
+    return finish('failed');
+  }
+
+  const body = JSON.stringify(renderPayload(target.payload ?? DEFAULT_PAYLOAD, context));
+  const maxAttempts = target.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  await save();
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const startedAt = Date.now();
+    let status: number | undefined;
+
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': context.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signPayload(secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      status = response.status;
+      delivery.attempts.push({ at: new Date(startedAt).toISOString(), status, durationMs: Date.now() - startedAt });
+      if (response.ok) {
+        return finish('delivered');
+      }
+    } catch (error) {
+      delivery.attempts.push({
+        at: new Date(startedAt).toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    if (!isRetryable(status) || attempt === maxAttempts) {
+      break;
+    }
+    await save();
+    await sleep(Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1)));
+  }
+
+  return finish('failed');
+}
+
+// Send the notification for a run event to every target subscribed to it
+export async function notify(event: RunEvent, registry: RunRegistry = runRegistry): Promise<Delivery[]> {
+  let notification: NotificationEvent;
+  let failure: { step?: string; error?: string } | undefined;
+
+  if (event.type === 'step-failed') {
+    notification = 'step-failed';
+    failure = { step: event.stepId, error: event.error };
+  } else if (event.type === 'run-finished' && event.status !== 'cancelled' && event.status !== 'running') {
+    notification = event.status === 'completed' ? 'run-completed' : 'run-failed';
+    failure = event.error && { step: event.error.step, error: event.error.message };
+  } else {
+    return [];
+  }
+
+  const targets = (await loadWebhookTargets()).filter((target) => !target.events || target.events.includes(notification));
+  const run = targets.length > 0 ? await registry.get(event.runId) : undefined;
+  if (!run) {
+    return [];
+  }
+
+  const context = notificationContext(notification, run, failure);
+  return Promise.all(
+    targets
+      .filter((target) => !target.workflows || target.workflows.includes(run.workflowId))
+      .map((target) => deliver(target, context))
+  );
+}
+
+// Dispatch notifications for every run in the registry; returns an unsubscribe function
+export function registerNotifications(registry: RunRegistry = runRegistry): () => void {
+  return registry.subscribeAll((event) => {
+    notify(event, registry).catch((error) => {
+      console.error(`❌ Notifications for run ${event.runId} failed:`, error instanceof Error ? error.message : error);
+    });
+  });
+}
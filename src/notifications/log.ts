@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const NOTIFICATION_EVENTS = ['run-completed', 'run-failed', 'step-failed'] as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export interface DeliveryAttempt {
+  at: string;
+  // HTTP status, when the receiver answered
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// One notification to one target, with every attempt made to deliver it
+export interface Delivery {
+  id: string;
+  event: NotificationEvent;
+  // Target name, or the URL's host; full webhook URLs often embed a token
+  target: string;
+  stepId?: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: DeliveryAttempt[];
+  createdAt: string;
+  finishedAt?: string;
+}
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+// Deliveries per run, one JSON file each, kept apart from the run record because retries
+// carry on after the run has finished and been written to the run store
+export class DeliveryLog {
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  private filePath(runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+
+  async list(runId: string): Promise<Delivery[]> {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      return [];
+    }
+    await this.writes.get(runId);
+
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(runId), 'utf8')) as Delivery[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Insert or replace a delivery. Updates for the same run are chained so concurrent
+  // deliveries don't overwrite each other's entries.
+  save(runId: string, delivery: Delivery): Promise<void> {
+    const snapshot: Delivery = JSON.parse(JSON.stringify(delivery));
+    const previous = this.writes.get(runId) || Promise.resolve();
+
+    const write = previous.then(async () => {
+      let deliveries: Delivery[] = [];
+      try {
+        deliveries = JSON.parse(await fs.readFile(this.filePath(runId), 'utf8')) as Delivery[];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const index = deliveries.findIndex((entry) => entry.id === snapshot.id);
+      if (index === -1) {
+        deliveries.push(snapshot);
+      } else {
+        deliveries[index] = snapshot;
+      }
+
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.filePath(runId);
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(deliveries, null, 2));
+      await fs.rename(`${target}.tmp`, target);
+    });
+
+    const settled = write.catch(() => undefined);
+    this.writes.set(runId, settled);
+    void settled.then(() => {
+      if (this.writes.get(runId) === settled) {
+        this.writes.delete(runId);
+      }
+    });
+
+    return write;
+  }
+}
+
+export const deliveryLog = new DeliveryLog(
+  process.env.NOTIFICATIONS_LOG_DIR || path.join(process.cwd(), 'data', 'notifications')
+);
@@ -0,0 +1,29 @@
+import { workflowCatalog } from '../flows/catalog';
+import { checkTemplate, listPrompts } from './library';
+
+// Static check of every prompt template and every workflow in the catalog: templates must
+// declare exactly the variables they use, and each step's placeholders must be satisfied by
+// a declared input or a direct dependency. Exits non-zero on any problem.
+export async function checkPrompts(): Promise<string[]> {
+  const errors = listPrompts().flatMap(checkTemplate);
+
+  for (const entry of await workflowCatalog.list()) {
+    errors.push(...entry.errors.map((error) => `${entry.id} (${entry.source}): ${error}`));
+  }
+  return errors;
+}
+
+if (require.main === module) {
+  checkPrompts()
+    .then((errors) => {
+      if (errors.length > 0) {
+        errors.forEach((error) => console.error(`❌ ${error}`));
+        process.exit(1);
+      }
+      console.log(`✅ ${listPrompts().length} prompt templates and all workflows check out`);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { WorkflowDefinition } from 'bilko-flow';
+import { extractPlaceholders } from '../flows/template';
+
+// Versioned prompt templates. A template declares the variables it reads: workflow inputs
+// (`researchTopic`) and upstream outputs (`design-architecture.output`). Changing a prompt's
+// text means adding a new version, so runs can be traced back to the exact prompt they used.
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description?: string;
+  variables: string[];
+  text: string;
+}
+
+// What a run records for each step: the template, its version and a hash of the text,
+// which also catches edits made without bumping the version
+export interface PromptRef {
+  id: string;
+  version: number;
+  hash: string;
+}
+
+const templates = new Map<string, PromptTemplate[]>();
+
+function textHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 12);
+}
+
+// Placeholders used but not declared, and declared variables that are never used
+export function checkTemplate(template: PromptTemplate): string[] {
+  const used = new Set(extractPlaceholders(template.text));
+  const declared = new Set(template.variables);
+  const errors: string[] = [];
+
+  for (const name of used) {
+    if (!declared.has(name)) {
+      errors.push(`${template.id}@${template.version}: {{${name}}} is not a declared variable`);
+    }
+  }
+  for (const name of declared) {
+    if (!used.has(name)) {
+      errors.push(`${template.id}@${template.version}: declared variable ${name} is never used`);
+    }
+  }
+  return errors;
+}
+
+// Register a template version; versions of one template must be added in increasing order
+export function definePrompt(template: PromptTemplate): PromptTemplate {
+  const errors = checkTemplate(template);
+  const versions = templates.get(template.id) || [];
+  const latest = versions[versions.length - 1];
+  if (!Number.isInteger(template.version) || template.version < 1) {
+    errors.push(`${template.id}: version must be a positive integer`);
+  } else if (latest && template.version <= latest.version) {
+    errors.push(`${template.id}@${template.version}: versions must increase (latest is ${latest.version})`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid prompt template: ${errors.join('; ')}`);
+  }
+
+  templates.set(template.id, [...versions, template]);
+  return template;
+}
+
+// The given version of a template, or its latest version
+export function getPrompt(id: string, version?: number): PromptTemplate | undefined {
+  const versions = templates.get(id) || [];
+  return version === undefined
+    ? versions[versions.length - 1]
+    : versions.find((template) => template.version === version);
+}
+
+export function listPrompts(): PromptTemplate[] {
+  return [...templates.values()].flat();
+}
+
+// Parse "id" or "id@version"
+export function parsePromptRef(reference: string): { id: string; version?: number } {
+  const [id, version] = reference.split('@');
+  return { id, version: version === undefined ? undefined : Number(version) };
+}
+
+// Step config for a template: the prompt text plus the reference recorded with each run
+export function promptConfig(id: string, version?: number): { prompt: string; promptTemplate: PromptRef } {
+  const template = getPrompt(id, version);
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${version === undefined ? id : `${id}@${version}`}`);
+  }
+  return {
+    prompt: template.text,
+    promptTemplate: { id: template.id, version: template.version, hash: textHash(template.text) },
+  };
+}
+
+// Fill in steps that name a template (`promptTemplate: "id@version"`) instead of inlining
+// a prompt, as file-defined workflows do. Unknown templates are reported, not thrown.
+export function resolvePromptTemplates(workflow: WorkflowDefinition): { workflow: WorkflowDefinition; errors: string[] } {
+  const errors: string[] = [];
+
+  const steps = workflow.steps.map((step) => {
+    const config = (step.config || {}) as Record<string, unknown>;
+    if (typeof config.promptTemplate !== 'string') {
+      return step;
+    }
+    if (config.prompt !== undefined) {
+      errors.push(`${step.id}: set either prompt or promptTemplate, not both`);
+      return step;
+    }
+
+    const { id, version } = parsePromptRef(config.promptTemplate);
+    try {
+      return { ...step, config: { ...config, ...promptConfig(id, version) } };
+    } catch (error) {
+      errors.push(`${step.id}: ${error instanceof Error ? error.message : 'Unknown prompt template'}`);
+      return step;
+    }
+  });
+
+  return { workflow: { ...workflow, steps }, errors };
+}
+
+// The template each step of a workflow was built from, keyed by step ID
+export function promptRefs(workflow: WorkflowDefinition): Record<string, PromptRef> {
+  return Object.fromEntries(
+    workflow.steps
+      .map((step) => [step.id, (step.config as Record<string, unknown>).promptTemplate] as const)
+      .filter((entry): entry is readonly [string, PromptRef] => typeof entry[1] === 'object' && entry[1] !== null)
+  );
+}
@@ -0,0 +1,162 @@
+import { definePrompt } from './library';
+
+// Prompts of the research-to-app-trial workflow, one template per step
+
+definePrompt({
+  id: 'research-to-app/analyze-research-topic',
+  version: 1,
+  description: 'Break a research topic down into complexity, challenges, stack, phases and risks',
+  variables: ['researchTopic'],
+  text: `Analyze this research topic and break it down into actionable development tasks:
+        
+        Research Topic: "{{researchTopic}}"
+        
+        Provide:
+        1. Technical complexity assessment (1-10)
+        2. Key technical challenges
+        3. Recommended technology stack (open-source only)
+        4. Development phases with estimated effort
+        5. Risk assessment and mitigation strategies
+        
+        Format as JSON with keys: complexity, challenges, techStack, phases, risks`,
+});
+
+definePrompt({
+  id: 'research-to-app/design-architecture',
+  version: 1,
+  description: 'Turn the research analysis into an architecture plan',
+  variables: ['analyze-research-topic.output'],
+  text: `Design the application architecture based on the research analysis:
+        
+        Analysis: "{{analyze-research-topic.output}}"
+        
+        Create a detailed architecture plan:
+        1. System components and their relationships
+        2. Data flow diagram (text description)
+        3. API structure and endpoints
+        4. Database schema design
+        5. Security considerations
+        
+        Format as JSON with keys: components, dataFlow, api, database, security`,
+});
+
+definePrompt({
+  id: 'research-to-app/generate-project-structure',
+  version: 1,
+  description: 'Project layout, package.json, configuration, Docker and CI from the architecture',
+  variables: ['design-architecture.output'],
+  text: `Generate the complete project structure and boilerplate code:
+        
+        Architecture: "{{design-architecture.output}}"
+        
+        Create:
+        1. Directory structure (tree format)
+        2. Package.json with open-source dependencies only
+        3. Configuration files (typescript, eslint, etc.)
+        4. Docker setup for development
+        5. CI/CD pipeline using GitHub Actions
+        
+        Provide as executable code blocks and configuration files.`,
+});
+
+definePrompt({
+  id: 'research-to-app/create-core-components',
+  version: 1,
+  description: 'TypeScript implementation of the core components',
+  variables: ['design-architecture.output', 'generate-project-structure.output'],
+  text: `Implement the core application components:
+        
+        Architecture: "{{design-architecture.output}}"
+        Project Structure: "{{generate-project-structure.output}}"
+        
+        Generate TypeScript code for:
+        1. Main application entry point
+        2. Core service classes
+        3. Data models and interfaces
+        4. API route handlers
+        5. Database connection and utilities
+        
+        Follow the architecture and use only open-source libraries.`,
+});
+
+definePrompt({
+  id: 'research-to-app/setup-testing',
+  version: 1,
+  description: 'Unit, integration, E2E and performance tests for the components',
+  variables: ['design-architecture.output', 'create-core-components.output'],
+  text: `Create comprehensive testing setup:
+        
+        Architecture: "{{design-architecture.output}}"
+        Components: "{{create-core-components.output}}"
+        
+        Generate:
+        1. Unit tests for core functions
+        2. Integration tests for API endpoints
+        3. E2E test scenarios
+        4. Test utilities and mocks
+        5. Performance test setup
+        
+        Use Vitest and Testing Library (open-source).`,
+});
+
+definePrompt({
+  id: 'research-to-app/create-documentation',
+  version: 1,
+  description: 'README, API docs and onboarding, deployment and contributing guides',
+  variables: ['design-architecture.output', 'create-core-components.output'],
+  text: `Generate comprehensive documentation:
+        
+        Architecture: "{{design-architecture.output}}"
+        Implementation: "{{create-core-components.output}}"
+        
+        Create:
+        1. README.md with setup instructions
+        2. API documentation (OpenAPI specification)
+        3. Developer onboarding guide
+        4. Deployment documentation
+        5. Contributing guidelines`,
+});
+
+definePrompt({
+  id: 'research-to-app/setup-deployment',
+  version: 1,
+  description: 'Docker Compose, Kubernetes, Nginx and environment configuration',
+  variables: ['generate-project-structure.output', 'create-documentation.output'],
+  text: `Create deployment configuration:
+        
+        Project: "{{generate-project-structure.output}}"
+        Documentation: "{{create-documentation.output}}"
+        
+        Generate:
+        1. Docker Compose for local development
+        2. Kubernetes deployment manifests
+        3. Nginx configuration
+        4. Environment variable templates
+        5. Health check endpoints
+        
+        Focus on self-hosted, open-source solutions.`,
+});
+
+definePrompt({
+  id: 'research-to-app/quality-assurance',
+  version: 1,
+  description: 'Review of the generated application, starting from the verification results',
+  variables: ['design-architecture.output', 'create-core-components.output', 'setup-testing.output', 'create-documentation.output', 'setup-deployment.output', 'verify-generated-project.output'],
+  text: `Perform quality assurance review of the generated application:
+        
+        Architecture: "{{design-architecture.output}}"
+        Code: "{{create-core-components.output}}"
+        Tests: "{{setup-testing.output}}"
+        Documentation: "{{create-documentation.output}}"
+        Deployment: "{{setup-deployment.output}}"
+        Verification (tsc and test results): "{{verify-generated-project.output}}"
+        
+        Analyze and report on:
+        1. Code quality and best practices, starting with any compiler errors or failing tests
+        2. Security vulnerabilities
+        3. Performance bottlenecks
+        4. Documentation completeness
+        5. Deployment readiness
+        
+        Provide specific recommendations and improvements needed.`,
+});
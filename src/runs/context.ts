@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { CacheMode, CacheStats } from '../adapters/cache';
+import type { CallStats } from '../adapters/metrics';
+import type { BudgetReport } from '../flows/budget';
+import type { ProviderOptions } from '../adapters/opensource-llm';
+import type { StepRouting } from '../adapters/router';
+import { TokenCallback } from '../adapters/streaming';
+import { JsonSchema } from '../flows/schema';
+import type { ModelCandidate } from '../models/families';
+import { TokenUsage } from './types';
+
+// Per-step execution context, visible to adapters called while the step runs
+export interface StepContext {
+  runId: string;
+  stepId: string;
+  signal: AbortSignal;
+  usage: TokenUsage;
+  onToken?: TokenCallback;
+  providerOptions?: Record<string, ProviderOptions | undefined>;
+  responseSchema?: JsonSchema;
+  // Routing candidates after the step's own provider/model; false pins the step to it
+  fallbacks?: ModelCandidate[] | false;
+  // Filled in by the routing adapter
+  routing?: StepRouting;
+  // Backend queue updates: position while waiting, then undefined with the total wait once admitted
+  onQueue?: (backend: string, position: number | undefined, waitedMs: number) => void;
+  // The run's response cache mode, and hits/misses counted by the cache wrapper
+  cacheMode?: CacheMode;
+  cacheStats?: CacheStats;
+  // Timing and token counts of each backend call, appended by the metrics wrapper
+  callStats?: CallStats[];
+  // Set when upstream outputs had to be compressed to fit the model's context window
+  contextBudget?: BudgetReport;
+}
+
+const stepContextStorage = new AsyncLocalStorage<StepContext>();
+
+export function runInStepContext<T>(context: StepContext, fn: () => Promise<T>): Promise<T> {
+  return stepContextStorage.run(context, fn);
+}
+
+export function getStepContext(): StepContext | undefined {
+  return stepContextStorage.getStore();
+}
+
+// Accumulate token usage across every adapter call made by the current step (retries included).
+// Usage of cached responses counts towards the totals and is also tallied under `cached`.
+export function recordUsage(usage: Partial<TokenUsage> | undefined, cached = false): void {
+  const context = stepContextStorage.getStore();
+  if (!context || !usage) {
+    return;
+  }
+
+  const totals = cached
+    ? [context.usage, context.usage.cached ??= { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }]
+    : [context.usage];
+  for (const total of totals) {
+    total.prompt_tokens += usage.prompt_tokens || 0;
+    total.completion_tokens += usage.completion_tokens || 0;
+    total.total_tokens += usage.total_tokens || 0;
+  }
+}
@@ -0,0 +1,497 @@
+import { compileWorkflow, executeWorkflow, WorkflowDefinition } from 'bilko-flow';
+import type { CacheMode, CacheStats } from '../adapters/cache';
+import { CallStats, summarizeCalls } from '../adapters/metrics';
+import { backendUnreachable } from '../adapters/router';
+import type { ProviderOptions } from '../adapters/opensource-llm';
+import { ContextBudgetConfig, DEFAULT_CONTEXT_LENGTH, fitPrompt } from '../flows/budget';
+import { buildRepairPrompt, JsonSchema, parseJsonOutput, validateAgainstSchema } from '../flows/schema';
+import type { FlowConfiguration } from '../flows/configure';
+import { renderTemplate } from '../flows/template';
+import { extractProject } from '../artifacts/extract';
+import { ModelCandidate, stepCandidates } from '../models/families';
+import { PromptRef, promptRefs } from '../prompts/library';
+import { redact } from '../secrets';
+import { workflowRuns, workflowStepDuration } from '../metrics';
+import { isModelProvider, modelRegistry } from '../models/registry';
+import { buildCompileRepairPrompt, hasProblems, lineDiff } from '../steps/repair';
+import { sandboxLimits, typecheckFiles } from '../steps/verify-project';
+import { getStepHandler } from '../steps/handlers';
+import { getStepContext, runInStepContext, StepContext } from './context';
+import { runRegistry } from './registry';
+import { RunRecord, StepRecord, TokenUsage } from './types';
+
+const OUTPUT_PREVIEW_LENGTH = 280;
+
+type FlowStep = WorkflowDefinition['steps'][number];
+
+export interface RunParams {
+  modelConfigs: Record<string, unknown>;
+  secrets: Record<string, string>;
+  cache?: CacheMode;
+  // User the run belongs to
+  owner?: string;
+}
+
+export class StepExecutionError extends Error {
+  constructor(message: string, public readonly step: string, public readonly backendUnavailable = false) {
+    super(message);
+    this.name = 'StepExecutionError';
+  }
+}
+
+// A backend the run needs is down or doesn't serve a model, found before any step ran
+class PreflightError extends Error {
+  constructor(problems: string[]) {
+    super(`Pre-flight check failed: ${problems.join('; ')}`);
+    this.name = 'PreflightError';
+  }
+}
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const DEFAULT_COMPILE_REPAIR_ROUNDS = 2;
+
+interface StepResult {
+  output: unknown;
+  metadata: Record<string, unknown>;
+}
+
+interface RepairRound {
+  round: number;
+  typeErrors: number;
+  diff?: string;
+}
+
+// Execute a single step as a one-step workflow so bilko-flow keeps handling
+// the adapter call, JSON repair and retries while we observe step boundaries
+async function invokeStep(
+  step: FlowStep,
+  workflow: WorkflowDefinition,
+  prompt: unknown,
+  inputs: Record<string, unknown>,
+  params: RunParams
+): Promise<unknown> {
+  const { outputSchema, maxRepairAttempts, selfRepair, fallbacks, promptTemplate, contextBudget, ...config } = step.config as Record<string, unknown>;
+
+  const { notifications, ...flow } = workflow;
+  const stepFlow: WorkflowDefinition = {
+    ...flow,
+    name: `${workflow.name}:${step.id}`,
+    steps: [{ ...step, config: { ...config, prompt }, dependencies: [] }],
+  };
+
+  const result = await executeWorkflow(compileWorkflow(stepFlow), {
+    ...inputs,
+    modelConfigs: params.modelConfigs,
+    secrets: params.secrets,
+  });
+
+  return result.outputs[step.id];
+}
+
+// Type-check the generated code offline and, while it has type errors, re-prompt with the
+// diagnostics. Nothing the model wrote is run, in any round. Falls through with the last
+// round's output when rounds run out.
+async function repairAgainstCompiler(
+  step: FlowStep,
+  workflow: WorkflowDefinition,
+  prompt: string,
+  firstOutput: unknown,
+  inputs: Record<string, unknown>,
+  outputs: Record<string, unknown>,
+  params: RunParams
+): Promise<StepResult> {
+  const settings = (step.config as Record<string, unknown>).selfRepair as Record<string, unknown>;
+  const maxRounds = typeof settings.maxRounds === 'number' ? settings.maxRounds : DEFAULT_COMPILE_REPAIR_ROUNDS;
+  const limits = sandboxLimits(settings);
+  const context = getStepContext();
+
+  const asText = (output: unknown) => typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+  const verify = (output: string) =>
+    typecheckFiles(extractProject({ ...outputs, [step.id]: output }).files, limits, context?.signal);
+
+  let output = asText(firstOutput);
+  let report = await verify(output);
+  const rounds: RepairRound[] = [{ round: 0, typeErrors: report.errorCount }];
+
+  while (hasProblems(report) && rounds.length <= maxRounds) {
+    console.warn(`⚠️ ${step.id} output has ${report.errorCount} type errors, requesting repair (${rounds.length}/${maxRounds})`);
+    context?.onToken?.(`\n\n--- Repair round ${rounds.length} ---\n\n`);
+
+    const revised = asText(await invokeStep(step, workflow, buildCompileRepairPrompt(prompt, output, report), inputs, params));
+    const diff = lineDiff(output, revised);
+    output = revised;
+    report = await verify(output);
+    rounds.push({
+      round: rounds.length,
+      typeErrors: report.errorCount,
+      diff,
+    });
+  }
+
+  return {
+    output,
+    metadata: { compileRepairs: rounds.length - 1, repairRounds: rounds, diagnostics: report },
+  };
+}
+
+// Render the step prompt within the context window of the smallest model it may be routed to,
+// compressing upstream outputs when it wouldn't fit. Summaries and partial results come from
+// the step's own model, without streaming or a response schema.
+async function renderStepPrompt(
+  step: FlowStep,
+  workflow: WorkflowDefinition,
+  template: string,
+  inputs: Record<string, unknown>,
+  outputs: Record<string, unknown>,
+  params: RunParams
+): Promise<string> {
+  const config = step.config as Record<string, unknown>;
+  const settings = config.contextBudget as ContextBudgetConfig | false | undefined;
+  const context = getStepContext();
+  if (settings === false || !context) {
+    return renderTemplate(template, { inputs, outputs });
+  }
+
+  const { provider, model, fallbacks } = config;
+  const candidates = typeof provider === 'string' && isModelProvider(provider) && typeof model === 'string'
+    ? stepCandidates(provider, model, fallbacks as ModelCandidate[] | false | undefined)
+    : [];
+  const contextLength = settings?.contextLength
+    ?? await modelRegistry.contextLength(candidates, params.modelConfigs)
+    ?? DEFAULT_CONTEXT_LENGTH;
+
+  // Summaries are plain text, so they go out without the step's JSON mode or schema
+  const { responseFormat, ...plainConfig } = config;
+  const invoke = (prompt: string, maxTokens: number) =>
+    runInStepContext({ ...context, onToken: undefined, responseSchema: undefined }, async () => {
+      const output = await invokeStep({ ...step, config: { ...plainConfig, maxTokens } }, workflow, prompt, inputs, params);
+      return typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+    });
+
+  // Steps that answer in JSON excerpt unless they choose a strategy, so fitting their prompt
+  // never adds model calls
+  const structured = config.outputSchema !== undefined || responseFormat !== undefined;
+  const { prompt, report } = await fitPrompt(template, { inputs, outputs }, {
+    contextLength,
+    maxTokens: typeof config.maxTokens === 'number' ? config.maxTokens : undefined,
+    strategy: settings?.strategy ?? (structured ? 'excerpt' : undefined),
+    invoke,
+  });
+  context.contextBudget = report;
+  return prompt;
+}
+
+// Run locally handled step types directly. Otherwise render the step prompt and, for steps
+// declaring an output schema, validate the response and re-prompt with the validation errors
+// until it conforms
+async function executeStep(
+  step: FlowStep,
+  workflow: WorkflowDefinition,
+  inputs: Record<string, unknown>,
+  outputs: Record<string, unknown>,
+  params: RunParams
+): Promise<StepResult> {
+  const config = step.config as Record<string, unknown>;
+  const handler = getStepHandler(step.type);
+  if (handler) {
+    return handler(config, { inputs, outputs, signal: getStepContext()?.signal });
+  }
+
+  const prompt = typeof config.prompt === 'string'
+    ? await renderStepPrompt(step, workflow, config.prompt, inputs, outputs, params)
+    : config.prompt;
+
+  const schema = config.outputSchema as JsonSchema | undefined;
+  if (!schema || typeof prompt !== 'string') {
+    const output = await invokeStep(step, workflow, prompt, inputs, params);
+    return config.selfRepair && typeof prompt === 'string'
+      ? repairAgainstCompiler(step, workflow, prompt, output, inputs, outputs, params)
+      : { output, metadata: {} };
+  }
+
+  const maxRepairs = typeof config.maxRepairAttempts === 'number'
+    ? config.maxRepairAttempts
+    : DEFAULT_REPAIR_ATTEMPTS;
+  let attemptPrompt = prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const raw = await invokeStep(step, workflow, attemptPrompt, inputs, params);
+    let value: unknown;
+    let errors: string[];
+
+    try {
+      value = parseJsonOutput(raw);
+      errors = validateAgainstSchema(schema, value);
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : 'Unparseable JSON'];
+    }
+
+    if (errors.length === 0) {
+      return { output: value, metadata: { schemaRepairs: attempt } };
+    }
+
+    if (attempt >= maxRepairs) {
+      throw new Error(`Output did not match schema after ${attempt + 1} attempts: ${errors.join('; ')}`);
+    }
+
+    console.warn(`⚠️ ${step.id} output failed schema validation, requesting repair (${attempt + 1}/${maxRepairs})`);
+    attemptPrompt = buildRepairPrompt(prompt, raw, errors);
+  }
+}
+
+function previewOutput(output: unknown): string {
+  const text = typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+  return text.length > OUTPUT_PREVIEW_LENGTH ? `${text.slice(0, OUTPUT_PREVIEW_LENGTH)}…` : text;
+}
+
+function stepRecord(run: RunRecord, stepId: string): StepRecord {
+  const record = run.steps.find((step) => step.id === stepId);
+  if (!record) {
+    throw new Error(`Run ${run.id} has no step ${stepId}`);
+  }
+  return record;
+}
+
+async function runStep(
+  run: RunRecord,
+  step: FlowStep,
+  workflow: WorkflowDefinition,
+  outputs: Record<string, unknown>,
+  params: RunParams,
+  signal: AbortSignal
+): Promise<void> {
+  const record = stepRecord(run, step.id);
+  record.status = 'running';
+  record.startedAt = new Date().toISOString();
+  run.currentSteps.push(step.id);
+  runRegistry.emit({ type: 'step-started', runId: run.id, stepId: step.id, timestamp: record.startedAt });
+  void runRegistry.persist(run);
+
+  const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  const cacheStats: CacheStats = { hits: 0, misses: 0 };
+  const callStats: CallStats[] = [];
+  const config = step.config as Record<string, unknown>;
+
+  const onToken = (delta: string) => runRegistry.emit({
+    type: 'step-delta',
+    runId: run.id,
+    stepId: step.id,
+    delta,
+    timestamp: new Date().toISOString(),
+  });
+
+  let queueWaitMs = 0;
+  const onQueue = (backend: string, position: number | undefined, waitedMs: number) => {
+    if (position === undefined) {
+      queueWaitMs += waitedMs;
+      record.queue = undefined;
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    record.queue = { backend, position, queuedAt: record.queue?.queuedAt ?? timestamp };
+    runRegistry.emit({ type: 'step-queued', runId: run.id, stepId: step.id, backend, position, timestamp });
+  };
+
+  const context: StepContext = {
+    runId: run.id,
+    stepId: step.id,
+    signal,
+    usage,
+    onToken,
+    onQueue,
+    providerOptions: params.modelConfigs as Record<string, ProviderOptions | undefined>,
+    responseSchema: config.outputSchema as JsonSchema | undefined,
+    fallbacks: config.fallbacks as ModelCandidate[] | false | undefined,
+    cacheMode: params.cache,
+    cacheStats,
+    callStats,
+  };
+
+  // Which prompt template and backend served the step (and what failed over first), how long
+  // it queued and what was compressed to fit the context window, kept on success and failure
+  const routingMetadata = () => ({
+    ...(config.promptTemplate !== undefined && { promptTemplate: config.promptTemplate as PromptRef }),
+    ...(context.contextBudget && { contextBudget: context.contextBudget }),
+    ...(context.routing?.servedBy && { servedBy: context.routing.servedBy }),
+    ...(context.routing?.failovers.length && { failovers: context.routing.failovers }),
+    ...(queueWaitMs > 0 && { queueWaitMs }),
+    ...(cacheStats.hits + cacheStats.misses > 0 && { cache: cacheStats }),
+    ...(callStats.length > 0 && { calls: summarizeCalls(callStats) }),
+  });
+
+  try {
+    const result = await runInStepContext(context, () =>
+      executeStep(step, workflow, run.inputs, outputs, params)
+    );
+    // Downstream steps see the redacted output too, the same one a resumed run would reuse
+    const output = redact(result.output);
+
+    outputs[step.id] = output;
+    record.output = output;
+    record.metadata = { ...redact(result.metadata), ...routingMetadata() };
+    record.usage = usage;
+    record.status = 'completed';
+    runRegistry.emit({
+      type: 'step-completed',
+      runId: run.id,
+      stepId: step.id,
+      outputPreview: previewOutput(output),
+      usage,
+      ...(cacheStats.hits > 0 && { cache: cacheStats }),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    record.status = 'failed';
+    record.error = redact(error instanceof Error ? error.message : 'Unknown error');
+    record.metadata = routingMetadata();
+    record.usage = usage;
+    runRegistry.emit({
+      type: 'step-failed',
+      runId: run.id,
+      stepId: step.id,
+      error: record.error,
+      timestamp: new Date().toISOString(),
+    });
+    throw new StepExecutionError(record.error, step.id, backendUnreachable(context.routing));
+  } finally {
+    if (run.cache) {
+      run.cache.hits += cacheStats.hits;
+      run.cache.misses += cacheStats.misses;
+    }
+    record.queue = undefined;
+    record.finishedAt = new Date().toISOString();
+    workflowStepDuration.observe(
+      { step: step.id, status: record.status },
+      (Date.parse(record.finishedAt) - Date.parse(record.startedAt!)) / 1000
+    );
+    run.currentSteps = run.currentSteps.filter((id) => id !== step.id);
+    void runRegistry.persist(run);
+  }
+}
+
+// Run steps in dependency order; steps whose dependencies are all satisfied run in parallel.
+// Steps already marked completed (e.g. reused by a resumed run) only contribute their outputs.
+export async function executeRun(run: RunRecord, workflow: WorkflowDefinition, params: RunParams): Promise<void> {
+  const signal = runRegistry.signal(run.id);
+  const completed = run.steps.filter((step) => step.status === 'completed');
+  const outputs: Record<string, unknown> = Object.fromEntries(completed.map((step) => [step.id, step.output]));
+  const pending = new Set(
+    workflow.steps.map((step) => step.id).filter((id) => !(id in outputs))
+  );
+
+  try {
+    // Fail before spending tokens on early steps if a later step's model isn't being served
+    const problems = await modelRegistry.checkWorkflow(workflow, params.modelConfigs, pending);
+    if (problems.length > 0) {
+      throw new PreflightError(problems);
+    }
+
+    while (pending.size > 0) {
+      if (signal.aborted) {
+        break;
+      }
+
+      const ready = workflow.steps.filter(
+        (step) => pending.has(step.id) && (step.dependencies || []).every((dep) => !pending.has(dep))
+      );
+
+      if (ready.length === 0) {
+        throw new Error(`Unsatisfiable dependencies for steps: ${[...pending].join(', ')}`);
+      }
+
+      const results = await Promise.allSettled(
+        ready.map((step) => runStep(run, step, workflow, outputs, params, signal))
+      );
+      ready.forEach((step) => pending.delete(step.id));
+
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
+    }
+
+    run.status = signal.aborted ? 'cancelled' : 'completed';
+  } catch (error) {
+    if (signal.aborted) {
+      run.status = 'cancelled';
+    } else {
+      run.status = 'failed';
+      run.error = {
+        message: redact(error instanceof Error ? error.message : 'Unknown error'),
+        step: error instanceof StepExecutionError ? error.step : undefined,
+        ...((error instanceof PreflightError || (error instanceof StepExecutionError && error.backendUnavailable))
+          && { backendUnavailable: true }),
+      };
+      console.error(`❌ Run ${run.id} failed${run.error.step ? ` at ${run.error.step}` : ''}:`, run.error.message);
+    }
+  } finally {
+    run.steps
+      .filter((step) => step.status === 'pending')
+      .forEach((step) => { step.status = 'skipped'; });
+    run.finishedAt = new Date().toISOString();
+    workflowRuns.inc({ workflow: run.workflowId, status: run.status });
+    runRegistry.emit({
+      type: 'run-finished',
+      runId: run.id,
+      status: run.status,
+      error: run.error,
+      timestamp: run.finishedAt,
+    });
+    await runRegistry.finish(run);
+  }
+}
+
+const CREDENTIAL_FIELD = /key|token|secret|password/i;
+
+// Keep provider settings (base URLs, prompt mode) for the record but never credentials
+function redactModelConfigs(modelConfigs: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(modelConfigs).map(([provider, config]) => [
+      provider,
+      config && typeof config === 'object'
+        ? Object.fromEntries(Object.entries(config).filter(([field]) => !CREDENTIAL_FIELD.test(field)))
+        : config,
+    ])
+  );
+}
+
+// Register a run without starting it; callers pair this with executeRun.
+// The workflow is expected to already have the configuration applied.
+export function createRun(
+  workflow: WorkflowDefinition,
+  inputs: Record<string, unknown>,
+  params: RunParams,
+  configuration?: FlowConfiguration
+): RunRecord {
+  const run = runRegistry.create(
+    workflow.name,
+    workflow.steps.map((step) => step.id),
+    inputs,
+    redactModelConfigs(params.modelConfigs),
+    configuration
+  );
+  if (params.owner) {
+    run.owner = params.owner;
+  }
+  run.cache = { mode: params.cache ?? 'use', hits: 0, misses: 0 };
+  const prompts = promptRefs(workflow);
+  if (Object.keys(prompts).length > 0) {
+    run.prompts = prompts;
+  }
+  return run;
+}
+
+// Register a run and execute it in the background, returning immediately
+export function startRun(
+  workflow: WorkflowDefinition,
+  inputs: Record<string, unknown>,
+  params: RunParams,
+  configuration?: FlowConfiguration
+): RunRecord {
+  const run = createRun(workflow, inputs, params, configuration);
+  console.log(`🚀 Started run ${run.id} for ${workflow.name}`);
+
+  void executeRun(run, workflow, params);
+  return run;
+}
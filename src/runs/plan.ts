@@ -0,0 +1,303 @@
+import { WorkflowDefinition } from 'bilko-flow';
+import { CacheMode, ResponseCache, responseCache } from '../adapters/cache';
+import type { ProviderOptions } from '../adapters/opensource-llm';
+import { ContextBudgetConfig, DEFAULT_CONTEXT_LENGTH, estimateTokens, promptBudget } from '../flows/budget';
+import { JsonSchema, parseJsonOutput } from '../flows/schema';
+import { renderTemplate } from '../flows/template';
+import { ModelCandidate, stepCandidates } from '../models/families';
+import { baseUrlFor, isModelProvider, modelRegistry, ProviderModels } from '../models/registry';
+import { PromptRef } from '../prompts/library';
+import { redact } from '../secrets';
+import { getStepHandler } from '../steps/handlers';
+import { runRegistry } from './registry';
+import { RunRecord } from './types';
+
+// What a run would do, worked out without calling a model: the stages of steps that run in
+// parallel, where each step would be served, its prompt as far as it can be rendered, whether
+// the response cache already holds the answer, and cost estimates from earlier runs
+
+type FlowStep = WorkflowDefinition['steps'][number];
+
+export interface StepEstimate {
+  promptTokens: number;
+  completionTokens: number;
+  durationMs: number;
+  // Earlier runs the averages come from
+  samples: number;
+}
+
+export interface PlannedStep {
+  id: string;
+  type: string;
+  // Index into the plan's stages
+  stage: number;
+  dependencies: string[];
+  // Handled in-process (e.g. sandbox verification) rather than by a model
+  local: boolean;
+  provider?: string;
+  model?: string;
+  // First routing candidate whose backend is up and serves the model
+  servedBy?: ModelCandidate & { baseUrl: string };
+  // Why earlier candidates (or all of them) can't serve the step
+  unavailable?: string[];
+  promptTemplate?: PromptRef;
+  // Inputs filled in; upstream outputs appear as "[output of <step>]" unless they're cached
+  // (and, for callers scoped to an owner, came from one of their own runs)
+  prompt?: string;
+  promptComplete?: boolean;
+  promptTokens?: number;
+  contextLength?: number;
+  // The prompt will be compressed to fit the context window at run time
+  overBudget?: boolean;
+  // 'unknown' when the prompt depends on outputs that aren't cached
+  cache?: 'hit' | 'miss' | 'unknown' | 'off';
+  estimate?: StepEstimate;
+}
+
+export interface ExecutionPlan {
+  workflowId: string;
+  // Step IDs in execution order; the steps of one stage run in parallel
+  stages: string[][];
+  steps: PlannedStep[];
+  backends: Pick<ProviderModels, 'provider' | 'baseUrl' | 'status' | 'error'>[];
+  // Anything that would stop the run from starting
+  problems: string[];
+  estimate: {
+    // Steps the cache can't answer; time adds up the slowest step of each stage
+    tokens: number;
+    durationMs: number;
+    cachedSteps: number;
+    // Steps without history, left out of the estimate
+    unestimated: string[];
+  };
+}
+
+export interface PlanOptions {
+  modelConfigs: Record<string, unknown>;
+  cache?: CacheMode;
+  // Problems found before planning, e.g. missing secrets
+  problems?: string[];
+  // Only this owner's runs feed the estimates, and only outputs they produced stand in for cached
+  // steps in prompt previews; unset (admins) uses every run
+  owner?: string;
+}
+
+const HISTORY_RUNS = 20;
+
+// The waves executeRun starts: every step whose dependencies have all finished
+export function executionStages(workflow: WorkflowDefinition): string[][] {
+  const pending = new Set(workflow.steps.map((step) => step.id));
+  const stages: string[][] = [];
+
+  while (pending.size > 0) {
+    const ready = workflow.steps
+      .filter((step) => pending.has(step.id) && (step.dependencies || []).every((dep) => !pending.has(dep)))
+      .map((step) => step.id);
+    if (ready.length === 0) {
+      throw new Error(`Unsatisfiable dependencies for steps: ${[...pending].join(', ')}`);
+    }
+    ready.forEach((id) => pending.delete(id));
+    stages.push(ready);
+  }
+  return stages;
+}
+
+const average = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) / values.length);
+
+// Averages over earlier runs in which the step did its own work, preferring those served by
+// the same model; reused steps and those answered entirely from the cache are left out
+function historicalEstimate(stepId: string, model: string | undefined, runs: RunRecord[]): StepEstimate | undefined {
+  const samples = runs
+    .map((run) => run.steps.find((step) => step.id === stepId))
+    .filter((step): step is NonNullable<typeof step> => {
+      const metadata = step?.metadata ?? {};
+      const cache = metadata.cache as { hits: number; misses: number } | undefined;
+      return step?.status === 'completed' && !!step.startedAt && !!step.finishedAt
+        && !metadata.reusedFrom && !(cache && cache.misses === 0);
+    });
+  const sameModel = samples.filter((step) => (step.metadata?.servedBy as { model?: string } | undefined)?.model === model);
+  const basis = sameModel.length > 0 ? sameModel : samples;
+  if (basis.length === 0) {
+    return undefined;
+  }
+
+  return {
+    promptTokens: average(basis.map((step) => step.usage?.prompt_tokens ?? 0)),
+    completionTokens: average(basis.map((step) => step.usage?.completion_tokens ?? 0)),
+    durationMs: average(basis.map((step) =>
+      Date.parse(step.finishedAt!) - Date.parse(step.startedAt!) - Number(step.metadata?.queueWaitMs ?? 0)
+    )),
+    samples: basis.length,
+  };
+}
+
+// Whether one of the runs completed the step with this output. The response cache is shared,
+// so this is what tells an owner's own cached answer from someone else's.
+function producedBy(runs: RunRecord[], stepId: string, output: unknown): boolean {
+  const expected = JSON.stringify(redact(output));
+  return runs.some((run) => run.steps.some((step) =>
+    step.id === stepId && step.status === 'completed' && JSON.stringify(step.output) === expected
+  ));
+}
+
+// Where the router would send the step right now, and why any earlier candidates were passed over
+async function resolveBackend(
+  config: Record<string, unknown>,
+  modelConfigs: Record<string, unknown>
+): Promise<Pick<PlannedStep, 'servedBy' | 'unavailable' | 'contextLength'>> {
+  const { provider, model, fallbacks } = config;
+  if (typeof provider !== 'string' || typeof model !== 'string') {
+    return {};
+  }
+  if (!isModelProvider(provider)) {
+    return { unavailable: [`unknown provider ${provider}`] };
+  }
+
+  const candidates = stepCandidates(provider, model, fallbacks as ModelCandidate[] | false | undefined);
+  const unavailable: string[] = [];
+  let servedBy: PlannedStep['servedBy'];
+  for (const candidate of candidates) {
+    const reason = await modelRegistry.unavailable(candidate, modelConfigs);
+    if (!reason) {
+      servedBy = { ...candidate, baseUrl: baseUrlFor(candidate.provider, modelConfigs) };
+      break;
+    }
+    unavailable.push(reason);
+  }
+
+  const settings = config.contextBudget as ContextBudgetConfig | false | undefined;
+  return {
+    ...(servedBy && { servedBy }),
+    ...(unavailable.length > 0 && { unavailable }),
+    ...(settings !== false && {
+      contextLength: settings?.contextLength
+        ?? await modelRegistry.contextLength(candidates, modelConfigs)
+        ?? DEFAULT_CONTEXT_LENGTH,
+    }),
+  };
+}
+
+// The cached response the step would get, looked up by its rendered prompt
+async function cachedOutput(
+  config: Record<string, unknown>,
+  candidate: ModelCandidate,
+  prompt: string,
+  modelConfigs: Record<string, unknown>
+): Promise<{ output: unknown } | undefined> {
+  const schema = config.outputSchema as JsonSchema | undefined;
+  const options = modelConfigs[candidate.provider] as ProviderOptions | undefined;
+  const response = await responseCache.lookup(ResponseCache.hash(ResponseCache.promptKey(candidate.provider, {
+    model: candidate.model,
+    mode: options?.mode ?? 'chat',
+    prompt,
+    temperature: typeof config.temperature === 'number' ? config.temperature : undefined,
+    maxTokens: typeof config.maxTokens === 'number' ? config.maxTokens : undefined,
+    responseSchema: schema,
+  })));
+  if (!response) {
+    return undefined;
+  }
+
+  try {
+    return { output: schema ? parseJsonOutput(response.content) : response.content };
+  } catch {
+    return undefined;
+  }
+}
+
+// Plan a configured workflow for the given inputs. Cached responses stand in for the outputs
+// of the steps they'd answer, so prompts further down can be previewed and checked too.
+// Another owner's cached output is never shown; steps after it are planned as 'unknown'.
+export async function planWorkflow(
+  workflow: WorkflowDefinition,
+  inputs: Record<string, unknown>,
+  options: PlanOptions
+): Promise<ExecutionPlan> {
+  const { modelConfigs } = options;
+  const cacheMode = options.cache ?? 'use';
+  const stages = executionStages(workflow);
+  const history = (await runRegistry.list({ workflowId: workflow.name, owner: options.owner, limit: HISTORY_RUNS }))
+    .filter((run) => run.status !== 'running');
+  const outputs: Record<string, unknown> = {};
+  const steps: PlannedStep[] = [];
+
+  for (const [stage, ids] of stages.entries()) {
+    for (const id of ids) {
+      const step = workflow.steps.find((candidate) => candidate.id === id) as FlowStep;
+      const config = step.config as Record<string, unknown>;
+      const local = Boolean(getStepHandler(step.type));
+      const planned: PlannedStep = {
+        id,
+        type: step.type,
+        stage,
+        dependencies: step.dependencies || [],
+        local,
+        ...(typeof config.provider === 'string' && { provider: config.provider }),
+        ...(typeof config.model === 'string' && { model: config.model }),
+        ...(config.promptTemplate !== undefined && { promptTemplate: config.promptTemplate as PromptRef }),
+      };
+      steps.push(planned);
+
+      if (!local) {
+        Object.assign(planned, await resolveBackend(config, modelConfigs));
+      }
+      const estimate = historicalEstimate(id, planned.servedBy?.model ?? planned.model, history);
+      if (estimate) {
+        planned.estimate = estimate;
+      }
+      if (local || typeof config.prompt !== 'string') {
+        continue;
+      }
+
+      const missing = (step.dependencies || []).filter((dependency) => !(dependency in outputs));
+      planned.prompt = renderTemplate(config.prompt, {
+        inputs,
+        outputs: { ...outputs, ...Object.fromEntries(missing.map((dependency) => [dependency, `[output of ${dependency}]`])) },
+      });
+      planned.promptComplete = missing.length === 0;
+      planned.promptTokens = estimateTokens(planned.prompt);
+      if (planned.contextLength !== undefined) {
+        planned.overBudget = planned.promptComplete
+          && planned.promptTokens > promptBudget(planned.contextLength, config.maxTokens as number | undefined);
+      }
+
+      if (cacheMode !== 'use') {
+        planned.cache = 'off';
+      } else if (!planned.promptComplete || planned.overBudget || !planned.servedBy) {
+        planned.cache = 'unknown';
+      } else {
+        const cached = await cachedOutput(config, planned.servedBy, planned.prompt, modelConfigs);
+        planned.cache = cached ? 'hit' : 'miss';
+        if (cached && (!options.owner || producedBy(history, id, cached.output))) {
+          outputs[id] = cached.output;
+        }
+      }
+    }
+  }
+
+  const backends = (await modelRegistry.list(modelConfigs))
+    .map(({ provider, baseUrl, status, error }) => ({ provider, baseUrl, status, ...(error && { error }) }));
+  const problems = [
+    ...(options.problems ?? []),
+    ...(await modelRegistry.checkWorkflow(workflow, modelConfigs)),
+  ];
+
+  // Cached steps cost nothing; a stage takes as long as its slowest step
+  const billable = steps.filter((step) => step.cache !== 'hit');
+  return {
+    workflowId: workflow.name,
+    stages,
+    steps,
+    backends,
+    problems,
+    estimate: {
+      tokens: billable.reduce((total, step) =>
+        total + (step.estimate ? step.estimate.promptTokens + step.estimate.completionTokens : 0), 0),
+      durationMs: stages.reduce((total, ids) => total + Math.max(0, ...billable
+        .filter((step) => ids.includes(step.id))
+        .map((step) => step.estimate?.durationMs ?? 0)), 0),
+      cachedSteps: steps.length - billable.length,
+      unestimated: billable.filter((step) => !step.estimate).map((step) => step.id),
+    },
+  };
+}
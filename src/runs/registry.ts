@@ -0,0 +1,249 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type { FlowConfiguration } from '../flows/configure';
+import { redact, StreamRedactor } from '../secrets';
+import { createDefaultRunStore, RunStore } from './store';
+import { RunEvent, RunFilters, RunRecord } from './types';
+
+const ALL_RUNS = Symbol('all runs');
+
+// Registry of workflow runs: active runs live in memory (with their abort controllers and
+// event logs) and every run is written through to the store for history across restarts
+export class RunRegistry {
+  private runs = new Map<string, RunRecord>();
+  private controllers = new Map<string, AbortController>();
+  private eventLogs = new Map<string, RunEvent[]>();
+  // Streamed deltas awaiting redaction, per run and step
+  private deltaRedactors = new Map<string, StreamRedactor>();
+  private emitter = new EventEmitter().setMaxListeners(0);
+
+  constructor(private readonly store: RunStore) {}
+
+  create(
+    workflowId: string,
+    stepIds: string[],
+    inputs: Record<string, unknown>,
+    modelConfigs: Record<string, unknown> = {},
+    configuration?: FlowConfiguration
+  ): RunRecord {
+    const run: RunRecord = {
+      id: uuidv4(),
+      workflowId,
+      status: 'running',
+      inputs,
+      modelConfigs,
+      ...(configuration && { configuration }),
+      currentSteps: [],
+      steps: stepIds.map((id) => ({ id, status: 'pending' })),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.runs.set(run.id, run);
+    this.controllers.set(run.id, new AbortController());
+    this.eventLogs.set(run.id, []);
+    void this.persist(run);
+    return run;
+  }
+
+  isActive(id: string): boolean {
+    return this.runs.has(id);
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    const active = this.runs.get(id);
+    if (active) {
+      return active;
+    }
+
+    const stored = await this.store.get(id);
+    return stored && this.settleStored(stored);
+  }
+
+  async list(filters: RunFilters = {}): Promise<RunRecord[]> {
+    const query = filters.query?.toLowerCase();
+    const stored = await this.store.list();
+    const byId = new Map(stored.map((run) => [run.id, this.settleStored(run)]));
+    this.runs.forEach((run, id) => byId.set(id, run));
+
+    const runs = [...byId.values()]
+      .filter((run) => !filters.status || run.status === filters.status)
+      .filter((run) => !filters.workflowId || run.workflowId === filters.workflowId)
+      .filter((run) => !filters.owner || run.owner === filters.owner)
+      .filter((run) => !query || String(run.inputs.researchTopic ?? '').toLowerCase().includes(query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return filters.limit ? runs.slice(0, filters.limit) : runs;
+  }
+
+  // A stored run still marked running was cut off by a restart; report it as failed
+  private settleStored(run: RunRecord): RunRecord {
+    if (run.status !== 'running' || this.runs.has(run.id)) {
+      return run;
+    }
+
+    return {
+      ...run,
+      status: 'failed',
+      currentSteps: [],
+      error: { message: 'Run was interrupted before it finished', step: run.currentSteps[0] },
+    };
+  }
+
+  // Snapshot the run to the store; failures are logged rather than failing the run
+  async persist(run: RunRecord): Promise<void> {
+    try {
+      await this.store.save(run);
+    } catch (error) {
+      console.error(`⚠️ Failed to persist run ${run.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Returns false when the run is unknown or still running
+  async delete(id: string): Promise<boolean> {
+    if (this.runs.has(id)) {
+      return false;
+    }
+    return this.store.delete(id);
+  }
+
+  signal(id: string): AbortSignal {
+    const controller = this.controllers.get(id);
+    if (!controller) {
+      throw new Error(`Unknown run: ${id}`);
+    }
+    return controller.signal;
+  }
+
+  // Returns false when the run is unknown or has already finished
+  cancel(id: string): boolean {
+    const run = this.runs.get(id);
+    if (!run || run.status !== 'running') {
+      return false;
+    }
+
+    this.controllers.get(id)?.abort();
+    return true;
+  }
+
+  // Streamed deltas and output previews come straight from the model, so every event is
+  // redacted. A secret can arrive split across deltas, so delta text is held back until it
+  // can't be the start of one, and released before the step's outcome.
+  emit(rawEvent: RunEvent): void {
+    if (rawEvent.type === 'step-delta') {
+      const key = `${rawEvent.runId}|${rawEvent.stepId}`;
+      let redactor = this.deltaRedactors.get(key);
+      if (!redactor) {
+        redactor = new StreamRedactor();
+        this.deltaRedactors.set(key, redactor);
+      }
+      const delta = redactor.push(rawEvent.delta);
+      if (delta) {
+        this.publish({ ...rawEvent, delta });
+      }
+      return;
+    }
+
+    if (rawEvent.type === 'step-completed' || rawEvent.type === 'step-failed') {
+      this.flushDeltas(rawEvent.runId, rawEvent.timestamp, rawEvent.stepId);
+    } else if (rawEvent.type === 'run-finished') {
+      this.flushDeltas(rawEvent.runId, rawEvent.timestamp);
+    }
+    this.publish(redact(rawEvent));
+  }
+
+  // Release held-back delta text for one step, or every step of the run
+  private flushDeltas(runId: string, timestamp: string, stepId?: string): void {
+    for (const [key, redactor] of this.deltaRedactors) {
+      const [keyRunId, keyStepId] = key.split('|');
+      if (keyRunId !== runId || (stepId && keyStepId !== stepId)) {
+        continue;
+      }
+      this.deltaRedactors.delete(key);
+      const delta = redactor.flush();
+      if (delta) {
+        this.publish({ type: 'step-delta', runId, stepId: keyStepId, delta, timestamp });
+      }
+    }
+  }
+
+  // Token deltas and queue positions go to live subscribers only; replaying them would
+  // duplicate the final output or report stale positions (the run record has the current one)
+  private publish(event: RunEvent): void {
+    if (event.type !== 'step-delta' && event.type !== 'step-queued') {
+      this.eventLogs.get(event.runId)?.push(event);
+    }
+    this.emitter.emit(event.runId, event);
+    this.emitter.emit(ALL_RUNS, event);
+  }
+
+  // Live events of every run, e.g. for notifications; nothing is replayed
+  subscribeAll(listener: (event: RunEvent) => void): () => void {
+    this.emitter.on(ALL_RUNS, listener);
+    return () => {
+      this.emitter.off(ALL_RUNS, listener);
+    };
+  }
+
+  // Replays the events emitted so far, then streams new ones until unsubscribed
+  subscribe(id: string, listener: (event: RunEvent) => void): () => void {
+    (this.eventLogs.get(id) || []).forEach(listener);
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  // Persist the final state, then drop the run from memory; later reads come from the store
+  async finish(run: RunRecord): Promise<void> {
+    this.controllers.delete(run.id);
+    await this.persist(run);
+    this.runs.delete(run.id);
+    this.eventLogs.delete(run.id);
+  }
+}
+
+export const runRegistry = new RunRegistry(createDefaultRunStore());
+
+function runDuration(run: RunRecord): number {
+  const end = run.finishedAt ? Date.parse(run.finishedAt) : Date.now();
+  return end - Date.parse(run.createdAt);
+}
+
+// Listing view: step states without their (potentially large) outputs
+export function summarizeRun(run: RunRecord) {
+  return {
+    id: run.id,
+    workflowId: run.workflowId,
+    owner: run.owner,
+    status: run.status,
+    researchTopic: run.inputs.researchTopic,
+    currentSteps: run.currentSteps,
+    steps: run.steps.map(({ id, status }) => ({ id, status })),
+    error: run.error,
+    resumedFrom: run.resumedFrom,
+    createdAt: run.createdAt,
+    finishedAt: run.finishedAt,
+  };
+}
+
+// Outputs of the steps that have completed so far, keyed by step ID
+export function runOutputs(run: RunRecord): Record<string, unknown> {
+  return Object.fromEntries(
+    run.steps.filter((step) => step.status === 'completed').map((step) => [step.id, step.output])
+  );
+}
+
+// Detail view: full step records plus the outputs gathered so far
+export function describeRun(run: RunRecord) {
+  const outputs = runOutputs(run);
+
+  return {
+    ...run,
+    outputs,
+    metadata: {
+      duration: runDuration(run),
+      stepsExecuted: Object.keys(outputs).length,
+      cache: run.cache,
+    },
+  };
+}
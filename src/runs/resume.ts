@@ -0,0 +1,113 @@
+import { WorkflowDefinition } from 'bilko-flow';
+import { configureWorkflow, FlowConfiguration } from '../flows/configure';
+import { createRun, executeRun, RunParams } from './executor';
+import { RunRecord } from './types';
+
+export interface StepModelOverride {
+  step: string;
+  provider?: string;
+  model?: string;
+}
+
+// Every step that transitively depends on one of the given steps
+export function downstreamSteps(workflow: WorkflowDefinition, stepIds: Iterable<string>): Set<string> {
+  const affected = new Set(stepIds);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (const step of workflow.steps) {
+      if (!affected.has(step.id) && (step.dependencies || []).some((dep) => affected.has(dep))) {
+        affected.add(step.id);
+        grew = true;
+      }
+    }
+  }
+
+  return affected;
+}
+
+// Steps that must run again: anything not completed, the overridden step, and all their dependents
+export function stepsToRerun(
+  source: RunRecord,
+  workflow: WorkflowDefinition,
+  override?: StepModelOverride
+): Set<string> {
+  const seeds = source.steps.filter((step) => step.status !== 'completed').map((step) => step.id);
+  if (override) {
+    seeds.push(override.step);
+  }
+  return downstreamSteps(workflow, seeds);
+}
+
+// Layer a one-step provider/model override on top of the source run's configuration
+function withOverride(configuration: FlowConfiguration = {}, override?: StepModelOverride): FlowConfiguration {
+  if (!override) {
+    return configuration;
+  }
+
+  const steps = configuration.steps || {};
+  return {
+    ...configuration,
+    steps: {
+      ...steps,
+      [override.step]: {
+        ...steps[override.step],
+        ...(override.provider && { provider: override.provider }),
+        ...(override.model && { model: override.model }),
+      },
+    },
+  };
+}
+
+// The source run's flow configuration with the override layered on, and the workflow it configures
+export function configureResume(
+  source: RunRecord,
+  workflow: WorkflowDefinition,
+  override?: StepModelOverride
+): { configuration: FlowConfiguration; workflow: WorkflowDefinition } {
+  if (override && !workflow.steps.some((step) => step.id === override.step)) {
+    throw new Error(`Unknown step: ${override.step}`);
+  }
+
+  const configuration = withOverride(source.configuration, override);
+  return { configuration, workflow: configureWorkflow(workflow, configuration) };
+}
+
+// Register a new run that reuses the source run's completed upstream outputs and will
+// execute only the failed step and everything downstream of it. The source run's flow
+// configuration is re-applied, so a resume keeps its model choices. Callers pair this
+// with executeRun on the returned workflow.
+export function prepareResume(
+  source: RunRecord,
+  workflow: WorkflowDefinition,
+  params: RunParams,
+  override?: StepModelOverride
+): { run: RunRecord; workflow: WorkflowDefinition } {
+  const { configuration, workflow: configured } = configureResume(source, workflow, override);
+  const rerun = stepsToRerun(source, workflow, override);
+  const run = createRun(configured, source.inputs, params, configuration);
+  run.resumedFrom = source.id;
+
+  run.steps = run.steps.map((step) => {
+    const previous = source.steps.find((candidate) => candidate.id === step.id);
+    return previous && !rerun.has(step.id)
+      ? { ...previous, metadata: { ...previous.metadata, reusedFrom: source.id } }
+      : step;
+  });
+
+  console.log(`🔁 Resuming run ${source.id} as ${run.id}, re-executing: ${[...rerun].join(', ')}`);
+  return { run, workflow: configured };
+}
+
+// Prepare a resume and execute it in the background, returning immediately
+export function resumeRun(
+  source: RunRecord,
+  workflow: WorkflowDefinition,
+  params: RunParams,
+  override?: StepModelOverride
+): RunRecord {
+  const resumed = prepareResume(source, workflow, params, override);
+  void executeRun(resumed.run, resumed.workflow, params);
+  return resumed.run;
+}
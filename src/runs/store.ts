@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RunRecord } from './types';
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+// Persistence backend for run records; swap in another implementation via RunRegistry's constructor
+export interface RunStore {
+  save(run: RunRecord): Promise<void>;
+  get(id: string): Promise<RunRecord | undefined>;
+  list(): Promise<RunRecord[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Default store: one JSON document per run under a data directory
+export class JsonFileRunStore implements RunStore {
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string): string {
+    if (!RUN_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid run ID: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  // Writes for the same run are chained so parallel steps can't interleave partial files
+  save(run: RunRecord): Promise<void> {
+    const snapshot = JSON.stringify(run, null, 2);
+    const previous = this.writes.get(run.id) || Promise.resolve();
+
+    const write = previous.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.filePath(run.id);
+      await fs.writeFile(`${target}.tmp`, snapshot);
+      await fs.rename(`${target}.tmp`, target);
+    });
+
+    const settled = write.catch(() => undefined);
+    this.writes.set(run.id, settled);
+    void settled.then(() => {
+      if (this.writes.get(run.id) === settled) {
+        this.writes.delete(run.id);
+      }
+    });
+
+    return write;
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    if (!RUN_ID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8')) as RunRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<RunRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const runs = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.get(path.basename(file, '.json')))
+    );
+    return runs.filter((run): run is RunRecord => run !== undefined);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!RUN_ID_PATTERN.test(id)) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export function createDefaultRunStore(): RunStore {
+  return new JsonFileRunStore(process.env.RUN_STORE_DIR || path.join(process.cwd(), 'data', 'runs'));
+}
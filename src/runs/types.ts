@@ -0,0 +1,91 @@
+import type { CacheMode, CacheStats } from '../adapters/cache';
+import type { FlowConfiguration } from '../flows/configure';
+import type { PromptRef } from '../prompts/library';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // The part of the totals replayed from the response cache rather than generated
+  cached?: Omit<TokenUsage, 'cached'>;
+}
+
+export interface StepRecord {
+  id: string;
+  status: StepStatus;
+  output?: unknown;
+  error?: string;
+  usage?: TokenUsage;
+  metadata?: Record<string, unknown>;
+  // Set while the step waits for a slot on a busy backend
+  queue?: {
+    backend: string;
+    position: number;
+    queuedAt: string;
+  };
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface RunRecord {
+  id: string;
+  workflowId: string;
+  status: RunStatus;
+  // User whose API key started the run
+  owner?: string;
+  inputs: Record<string, unknown>;
+  // Provider connection settings with credentials removed
+  modelConfigs: Record<string, unknown>;
+  // Provider/model defaults and per-step overrides the workflow was run with
+  configuration?: FlowConfiguration;
+  currentSteps: string[];
+  steps: StepRecord[];
+  error?: {
+    message: string;
+    step?: string;
+    // A backend was down or doesn't serve a required model, as opposed to the step itself failing
+    backendUnavailable?: boolean;
+  };
+  // Response cache mode and hits/misses across all steps
+  cache?: CacheStats & { mode: CacheMode };
+  // Prompt template and version each step was built from, keyed by step ID
+  prompts?: Record<string, PromptRef>;
+  // ID of the failed run whose completed steps this run reused
+  resumedFrom?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export interface RunFilters {
+  status?: RunStatus;
+  workflowId?: string;
+  owner?: string;
+  query?: string;
+  limit?: number;
+}
+
+export type RunEvent =
+  | { type: 'step-started'; runId: string; stepId: string; timestamp: string }
+  | { type: 'step-delta'; runId: string; stepId: string; delta: string; timestamp: string }
+  | { type: 'step-queued'; runId: string; stepId: string; backend: string; position: number; timestamp: string }
+  | {
+      type: 'step-completed';
+      runId: string;
+      stepId: string;
+      outputPreview: string;
+      usage?: TokenUsage;
+      cache?: CacheStats;
+      timestamp: string;
+    }
+  | { type: 'step-failed'; runId: string; stepId: string; error: string; timestamp: string }
+  | {
+      type: 'run-finished';
+      runId: string;
+      status: RunStatus;
+      error?: RunRecord['error'];
+      timestamp: string;
+    };
@@ -0,0 +1,114 @@
+import { secretsVault } from './vault';
+
+export { secretsVault } from './vault';
+
+// A secret a workflow declares; its value is resolved on the server, never sent by clients
+export interface SecretDeclaration {
+  name: string;
+  description?: string;
+}
+
+export class MissingSecretsError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Missing secrets: ${errors.join(', ')}`);
+    this.name = 'MissingSecretsError';
+  }
+}
+
+// Every secret value resolved so far, mapped to its name, for redaction
+const knownSecrets = new Map<string, string>();
+
+// Environment variables win over the encrypted secrets file. Throws when a declared
+// secret has no value in either.
+export async function resolveSecrets(declared: SecretDeclaration[] = []): Promise<Record<string, string>> {
+  const vault = declared.some((secret) => !process.env[secret.name]) ? await secretsVault.read() : {};
+  const secrets: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const { name } of declared) {
+    const value = process.env[name] || vault[name];
+    if (value) {
+      secrets[name] = value;
+      knownSecrets.set(value, name);
+    } else {
+      missing.push(name);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new MissingSecretsError(missing);
+  }
+  return secrets;
+}
+
+export function redactText(text: string): string {
+  let redacted = text;
+  // Longest first, so a secret containing another is replaced whole
+  for (const [value, name] of [...knownSecrets].sort(([a], [b]) => b.length - a.length)) {
+    redacted = redacted.split(value).join(`[redacted:${name}]`);
+  }
+  return redacted;
+}
+
+// Redacts text that arrives in pieces, such as streamed tokens. A secret split across two pieces
+// is still caught: text that could be the start of a secret is held back until more arrives.
+export class StreamRedactor {
+  private pending = '';
+
+  push(text: string): string {
+    this.pending += text;
+    const longest = Math.max(0, ...[...knownSecrets.keys()].map((value) => value.length));
+    let cut = longest > 0 ? Math.max(0, this.pending.length - (longest - 1)) : this.pending.length;
+
+    // Never cut through a secret that has arrived whole
+    for (let moved = true; moved;) {
+      moved = false;
+      for (const value of knownSecrets.keys()) {
+        for (let index = this.pending.indexOf(value); index !== -1 && index < cut; index = this.pending.indexOf(value, index + 1)) {
+          if (index + value.length > cut) {
+            cut = index;
+            moved = true;
+          }
+        }
+      }
+    }
+
+    const ready = this.pending.slice(0, cut);
+    this.pending = this.pending.slice(cut);
+    return redactText(ready);
+  }
+
+  // Whatever is still held back, once no more text will arrive
+  flush(): string {
+    const rest = redactText(this.pending);
+    this.pending = '';
+    return rest;
+  }
+}
+
+// Replace every resolved secret value in strings anywhere inside the value
+export function redact<T>(value: T): T {
+  if (knownSecrets.size === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item)])) as T;
+  }
+  return value;
+}
+
+// Redact everything written through console, since errors and warnings can quote step output
+export function installConsoleRedaction(): void {
+  for (const method of ['log', 'info', 'warn', 'error'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => original(
+      ...args.map((arg) => (arg instanceof Error ? redactText(arg.stack ?? arg.message) : redact(arg)))
+    );
+  }
+}
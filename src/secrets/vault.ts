@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Local secrets file, encrypted with AES-256-GCM under a key derived (scrypt) from
+// SECRETS_PASSPHRASE. Manage it with `npm run secrets -- set|list|remove`.
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+export class SecretsVault {
+  private cached?: { mtimeMs: number; secrets: Record<string, string> };
+
+  constructor(private readonly file: string, private readonly passphrase?: string) {}
+
+  // Decrypted secrets; empty when the file doesn't exist. Re-read when the file changes.
+  async read(): Promise<Record<string, string>> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.file)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    if (this.cached?.mtimeMs === mtimeMs) {
+      return this.cached.secrets;
+    }
+    if (!this.passphrase) {
+      throw new Error(`${this.file} exists but SECRETS_PASSPHRASE is not set`);
+    }
+
+    const vault = JSON.parse(await fs.readFile(this.file, 'utf8')) as VaultFile;
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(this.passphrase, Buffer.from(vault.salt, 'base64')),
+      Buffer.from(vault.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([decipher.update(Buffer.from(vault.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`Could not decrypt ${this.file}: wrong SECRETS_PASSPHRASE or corrupted file`);
+    }
+
+    const secrets = JSON.parse(plaintext) as Record<string, string>;
+    this.cached = { mtimeMs, secrets };
+    return secrets;
+  }
+
+  async write(secrets: Record<string, string>): Promise<void> {
+    if (!this.passphrase) {
+      throw new Error('SECRETS_PASSPHRASE is not set');
+    }
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(this.passphrase, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+    const vault: VaultFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(vault, null, 2), { mode: 0o600 });
+    await fs.rename(`${this.file}.tmp`, this.file);
+    this.cached = undefined;
+  }
+}
+
+export const secretsVault = new SecretsVault(
+  process.env.SECRETS_FILE || path.join(process.cwd(), 'data', 'secrets.enc'),
+  process.env.SECRETS_PASSPHRASE
+);
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+// `set NAME` reads the value from stdin so it stays out of shell history
+async function runVaultCommand([command, name]: string[]): Promise<void> {
+  const secrets = { ...(await secretsVault.read()) };
+
+  switch (command) {
+    case 'list':
+      Object.keys(secrets).sort().forEach((key) => console.log(key));
+      return;
+    case 'set': {
+      if (!name) {
+        throw new Error('Usage: secrets set NAME < value');
+      }
+      const value = await readStdin();
+      if (!value) {
+        throw new Error(`No value given for ${name} on stdin`);
+      }
+      await secretsVault.write({ ...secrets, [name]: value });
+      console.log(`🔐 Stored ${name}`);
+      return;
+    }
+    case 'remove':
+      if (!name || !(name in secrets)) {
+        throw new Error(`No secret named ${name ?? ''}`);
+      }
+      delete secrets[name];
+      await secretsVault.write(secrets);
+      console.log(`🗑️ Removed ${name}`);
+      return;
+    default:
+      throw new Error('Usage: secrets list | set NAME < value | remove NAME');
+  }
+}
+
+if (require.main === module) {
+  runVaultCommand(process.argv.slice(2)).catch((error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
+}
@@ -1,39 +1,136 @@
 import express from 'express';
+import { WorkflowDefinition } from 'bilko-flow';
 import cors from 'cors';
 import { registerOpenSourceAdapters } from './adapters/opensource-llm';
+import {
+  allowedOrigins,
+  apiKeyStore,
+  authenticateRequest,
+  canAccessRun,
+  isRole,
+  principalOf,
+  requireRole,
+  ROLES
+} from './auth';
+import { CACHE_MODES, isCacheMode } from './adapters/cache';
+import { saturatedBackend, limiterStats } from './adapters/limiter';
+import { circuitStates } from './adapters/router';
 import { researchToAppFlow } from './flows/research-to-app-trial';
-import { compileWorkflow, executeWorkflow } from 'bilko-flow';
+import { WorkflowEntry, workflowCatalog } from './flows/catalog';
+import { configureWorkflow, FlowConfigurationError, parseFlowConfiguration } from './flows/configure';
+import { resolveWorkflowInputs, WorkflowInputError } from './flows/validate';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from './metrics';
+import { modelRegistry } from './models/registry';
+import { deliveryLog, registerNotifications } from './notifications';
+import { RunParams, startRun } from './runs/executor';
+import { planWorkflow } from './runs/plan';
+import { configureResume, resumeRun } from './runs/resume';
+import { runRegistry, summarizeRun, describeRun, runOutputs } from './runs/registry';
+import { extractProject } from './artifacts/extract';
+import { buildProjectZip } from './artifacts/zip';
+import { registerLocalStepHandlers } from './steps';
+import { RunEvent, RunRecord, RunStatus } from './runs/types';
+import { installConsoleRedaction, MissingSecretsError, redact, resolveSecrets } from './secrets';
 import path from 'path';
 
+installConsoleRedaction();
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
+app.use(cors({
+  origin: allowedOrigins(),
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
+}));
 app.use(express.json());
 app.use(express.static(path.join(__dirname, '../public')));
 
 // Register open-source adapters
 registerOpenSourceAdapters();
-const compiledWorkflow = compileWorkflow(researchToAppFlow);
+registerLocalStepHandlers();
+registerNotifications();
+
+const RUN_STATUSES: RunStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+
+// Local Ollama, when a request has no modelConfigs
+const DEFAULT_MODEL_CONFIGS: RunParams['modelConfigs'] = {
+  ollama: {
+    baseUrl: 'http://localhost:11434',
+    apiKey: 'not-required'
+  }
+};
+
+// Fill in local-development defaults for whatever the client left out. The workflow's
+// secrets are always resolved here, from the environment or the secrets file.
+async function resolveRunParams(
+  workflow: WorkflowDefinition,
+  modelConfigs?: RunParams['modelConfigs'],
+  cache?: RunParams['cache'],
+  owner?: RunParams['owner']
+): Promise<RunParams> {
+  return {
+    cache,
+    owner,
+    modelConfigs: modelConfigs || DEFAULT_MODEL_CONFIGS,
+    secrets: await resolveSecrets(workflow.secrets)
+  };
+}
+
+const CLIENT_SECRETS_ERROR = 'secrets cannot be sent with a request; they are resolved on the server';
+
+// The run, if the requesting user may see it; others' runs are reported as not found
+async function visibleRun(res: express.Response, id: string): Promise<RunRecord | undefined> {
+  const run = await runRegistry.get(id);
+  return run && canAccessRun(principalOf(res), run) ? run : undefined;
+}
 
 // API Routes
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-app.get('/api/workflows', (req, res) => {
-  res.json({
-    workflows: [
-      {
-        id: 'research-to-app-trial',
-        name: 'Research to App Trial',
-        description: 'Transform research concept into functional application prototype',
-        steps: researchToAppFlow.steps.length,
-        determinismGrade: researchToAppFlow.determinismGrade
-      }
-    ]
-  });
+// Every other API route needs an API key; the health check above stays open for probes
+app.use('/api', authenticateRequest);
+
+// Metrics need a viewer key too, unless METRICS_PUBLIC=true leaves them open for scrapers
+const metricsAuth: express.RequestHandler[] = process.env.METRICS_PUBLIC === 'true'
+  ? []
+  : [authenticateRequest, requireRole('viewer')];
+
+app.get('/metrics', ...metricsAuth, (req, res) => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
+});
+
+app.get('/api/workflows', async (req, res) => {
+  try {
+    const entries = await workflowCatalog.list();
+    res.json({
+      workflows: entries.map((entry) => ({
+        id: entry.id,
+        name: entry.title,
+        description: entry.description,
+        steps: entry.definition?.steps?.length ?? 0,
+        determinismGrade: entry.definition?.determinismGrade,
+        inputs: entry.inputs,
+        source: entry.source,
+        valid: entry.errors.length === 0,
+        ...(entry.errors.length > 0 && { errors: entry.errors })
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/workflows/:id', async (req, res) => {
+  const entry = await workflowCatalog.get(req.params.id).catch(() => undefined);
+
+  if (!entry) {
+    return res.status(404).json({ error: `Workflow not found: ${req.params.id}` });
+  }
+
+  res.json(entry);
 });
 
 app.get('/api/models/status', async (req, res) => {
@@ -68,51 +165,444 @@ app.get('/api/models/status', async (req, res) => {
   res.json({ services: status });
 });
 
-app.post('/api/workflows/execute', async (req, res) => {
+// Models each backend currently serves (cached; ?refresh=true bypasses the cache), plus
+// each backend's circuit breaker state and request queue
+app.get('/api/models', async (req, res) => {
   try {
-    const { researchTopic, modelConfigs, secrets } = req.body;
+    const providers = await modelRegistry.list({}, req.query.refresh === 'true');
+    res.json({ providers, circuits: circuitStates(), queues: limiterStats() });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Configure, pre-flight and start a run of a catalog workflow from an execute request body
+async function executeWorkflowRequest(
+  req: express.Request,
+  res: express.Response,
+  entry: WorkflowEntry,
+  providedInputs: Record<string, unknown>
+) {
+  const { modelConfigs, secrets, cache } = req.body;
 
-    if (!researchTopic) {
-      return res.status(400).json({ error: 'researchTopic is required' });
+  if (secrets !== undefined) {
+    return res.status(400).json({ error: CLIENT_SECRETS_ERROR });
+  }
+
+  if (!entry.definition || entry.errors.length > 0) {
+    return res.status(400).json({ error: `Workflow ${entry.id} is invalid`, details: entry.errors });
+  }
+
+  if (cache !== undefined && !isCacheMode(cache)) {
+    return res.status(400).json({ error: `cache must be one of: ${CACHE_MODES.join(', ')}` });
+  }
+
+  let configuration;
+  let inputs;
+  let workflow;
+  try {
+    configuration = parseFlowConfiguration(req.body);
+    inputs = resolveWorkflowInputs(entry.inputs, providedInputs);
+    workflow = configureWorkflow(entry.definition, configuration);
+  } catch (error) {
+    if (error instanceof WorkflowInputError || error instanceof FlowConfigurationError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
     }
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 
-    console.log(`🚀 Starting workflow execution: ${researchTopic}`);
+  let params: RunParams;
+  try {
+    params = await resolveRunParams(workflow, modelConfigs, cache, principalOf(res).user);
+  } catch (error) {
+    if (error instanceof MissingSecretsError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
+    }
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  const problems = await modelRegistry.checkWorkflow(workflow, params.modelConfigs);
+  if (problems.length > 0) {
+    return res.status(400).json({ error: 'Pre-flight check failed', details: problems });
+  }
 
-    const result = await executeWorkflow(compiledWorkflow, {
-      researchTopic,
-      modelConfigs: modelConfigs || {
-        ollama: {
-          baseUrl: 'http://localhost:11434',
-          apiKey: 'not-required'
-        }
-      },
-      secrets: secrets || {
-        DATABASE_URL: 'postgresql://localhost:5432/research_app',
-        JWT_SECRET: 'your-jwt-secret-here'
+  const saturated = saturatedBackend(workflow, params.modelConfigs);
+  if (saturated) {
+    const retryAfter = saturated.retryAfterSeconds();
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ error: `Backend queue is full: ${saturated.backend}`, retryAfter });
+  }
+
+  console.log(`🚀 Starting workflow execution: ${entry.id}`);
+
+  const run = startRun(workflow, inputs, params, configuration);
+
+  res.status(202).json({
+    success: true,
+    runId: run.id,
+    workflowId: entry.id,
+    status: run.status,
+    links: {
+      self: `/api/runs/${run.id}`,
+      events: `/api/runs/${run.id}/events`,
+      cancel: `/api/runs/${run.id}/cancel`
+    }
+  });
+}
+
+// The original research-to-app entry point, kept for existing clients
+app.post('/api/workflows/execute', requireRole('runner'), async (req, res) => {
+  const { researchTopic } = req.body;
+
+  if (!researchTopic) {
+    return res.status(400).json({ error: 'researchTopic is required' });
+  }
+
+  try {
+    const entry = await workflowCatalog.get(researchToAppFlow.name);
+    return await executeWorkflowRequest(req, res, entry!, { researchTopic });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.post('/api/workflows/:id/execute', requireRole('runner'), async (req, res) => {
+  const { inputs } = req.body;
+
+  if (inputs !== undefined && (!inputs || typeof inputs !== 'object' || Array.isArray(inputs))) {
+    return res.status(400).json({ error: 'inputs must be an object' });
+  }
+
+  try {
+    const entry = await workflowCatalog.get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: `Workflow not found: ${req.params.id}` });
+    }
+
+    return await executeWorkflowRequest(req, res, entry, inputs || {});
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// What a run would do with the same request body as /execute, without calling a model:
+// stages, routing, prompt previews, predicted cache hits and estimates from earlier runs
+app.post('/api/workflows/:id/plan', requireRole('runner'), async (req, res) => {
+  const { inputs: providedInputs, modelConfigs, secrets, cache } = req.body;
+  const entry = await workflowCatalog.get(req.params.id).catch(() => undefined);
+
+  if (!entry) {
+    return res.status(404).json({ error: `Workflow not found: ${req.params.id}` });
+  }
+
+  if (providedInputs !== undefined && (!providedInputs || typeof providedInputs !== 'object' || Array.isArray(providedInputs))) {
+    return res.status(400).json({ error: 'inputs must be an object' });
+  }
+
+  if (secrets !== undefined) {
+    return res.status(400).json({ error: CLIENT_SECRETS_ERROR });
+  }
+
+  if (!entry.definition || entry.errors.length > 0) {
+    return res.status(400).json({ error: `Workflow ${entry.id} is invalid`, details: entry.errors });
+  }
+
+  if (cache !== undefined && !isCacheMode(cache)) {
+    return res.status(400).json({ error: `cache must be one of: ${CACHE_MODES.join(', ')}` });
+  }
+
+  let inputs;
+  let workflow;
+  try {
+    inputs = resolveWorkflowInputs(entry.inputs, providedInputs || {});
+    workflow = configureWorkflow(entry.definition, parseFlowConfiguration(req.body));
+  } catch (error) {
+    if (error instanceof WorkflowInputError || error instanceof FlowConfigurationError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
+    }
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    // Missing secrets would stop the run, so they're reported alongside the other problems
+    const problems: string[] = [];
+    await resolveSecrets(workflow.secrets).catch((error) => {
+      if (!(error instanceof MissingSecretsError)) {
+        throw error;
       }
+      problems.push(error.message);
     });
 
-    res.json({
+    const principal = principalOf(res);
+    const plan = await planWorkflow(workflow, inputs, {
+      modelConfigs: modelConfigs || DEFAULT_MODEL_CONFIGS,
+      cache,
+      problems,
+      // Everyone but admins plans from their own runs and cached outputs only
+      owner: principal.role === 'admin' ? undefined : principal.user
+    });
+    // Prompt previews can include cached responses, which are stored unredacted
+    res.json(redact(plan));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/runs', async (req, res) => {
+  const { status, workflowId, owner, q, limit } = req.query;
+  const principal = principalOf(res);
+
+  if (status && !RUN_STATUSES.includes(status as RunStatus)) {
+    return res.status(400).json({ error: `status must be one of: ${RUN_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const runs = await runRegistry.list({
+      status: status as RunStatus | undefined,
+      workflowId: typeof workflowId === 'string' ? workflowId : undefined,
+      // Admins may filter by owner; everyone else only lists their own runs
+      owner: principal.role === 'admin' ? (typeof owner === 'string' ? owner : undefined) : principal.user,
+      query: typeof q === 'string' ? q : undefined,
+      limit: limit ? Number(limit) : undefined
+    });
+
+    res.json({ runs: runs.map(summarizeRun) });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/runs/:id', async (req, res) => {
+  try {
+    const run = await visibleRun(res, req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    res.json(describeRun(run));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.delete('/api/runs/:id', requireRole('runner'), async (req, res) => {
+  try {
+    if (!(await visibleRun(res, req.params.id))) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    if (runRegistry.isActive(req.params.id)) {
+      return res.status(409).json({ error: 'Cancel the run before deleting it' });
+    }
+
+    if (!(await runRegistry.delete(req.params.id))) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    res.json({ success: true, runId: req.params.id });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/runs/:id/artifact', async (req, res) => {
+  try {
+    const run = await visibleRun(res, req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    res.json(extractProject(runOutputs(run)));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/runs/:id/artifact.zip', async (req, res) => {
+  try {
+    const run = await visibleRun(res, req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    const project = extractProject(runOutputs(run));
+    if (project.files.length === 0) {
+      return res.status(404).json({ error: 'Run has not produced any files yet' });
+    }
+
+    const rootName = `research-app-${run.id.slice(0, 8)}`;
+    const zip = await buildProjectZip(project, rootName);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${rootName}.zip"`);
+    res.send(zip);
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.get('/api/runs/:id/events', async (req, res) => {
+  const run = await visibleRun(res, req.params.id).catch(() => undefined);
+
+  if (!run) {
+    return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const send = (event: RunEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+  // Comment lines keep idle proxies from closing the stream during long steps
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), 15000);
+  let unsubscribe = () => {};
+  const close = () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+    res.end();
+  };
+  res.on('close', close);
+
+  // Subscribe before checking whether the run is still going, so a run that finishes in
+  // between still delivers its terminal event
+  unsubscribe = runRegistry.subscribe(run.id, (event) => {
+    send(event);
+    if (event.type === 'run-finished') {
+      close();
+    }
+  });
+  if (res.writableEnded) {
+    return unsubscribe();
+  }
+
+  // Runs loaded from history have no live event log; report how they ended
+  if (!runRegistry.isActive(run.id)) {
+    const finished = (await runRegistry.get(run.id).catch(() => undefined)) ?? run;
+    if (!res.writableEnded) {
+      send({
+        type: 'run-finished',
+        runId: finished.id,
+        status: finished.status,
+        error: finished.error,
+        timestamp: finished.finishedAt || finished.createdAt
+      });
+      close();
+    }
+  }
+});
+
+// Webhook deliveries for the run, with every attempt
+app.get('/api/runs/:id/notifications', async (req, res) => {
+  try {
+    const run = await visibleRun(res, req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+
+    res.json({ runId: run.id, deliveries: await deliveryLog.list(run.id) });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.post('/api/runs/:id/cancel', requireRole('runner'), async (req, res) => {
+  const run = await visibleRun(res, req.params.id).catch(() => undefined);
+
+  if (!run) {
+    return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+  }
+
+  if (!runRegistry.cancel(run.id)) {
+    return res.status(409).json({ error: `Run is already ${run.status}` });
+  }
+
+  res.status(202).json({ success: true, runId: run.id });
+});
+
+app.post('/api/runs/:id/resume', requireRole('runner'), async (req, res) => {
+  const { modelConfigs, secrets, step, provider, model, cache } = req.body;
+  const source = await visibleRun(res, req.params.id).catch(() => undefined);
+
+  if (!source) {
+    return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+  }
+
+  if (source.status !== 'failed' && source.status !== 'cancelled') {
+    return res.status(409).json({ error: `Only failed or cancelled runs can be resumed; run is ${source.status}` });
+  }
+
+  const entry = await workflowCatalog.get(source.workflowId).catch(() => undefined);
+  if (!entry?.definition || entry.errors.length > 0) {
+    return res.status(400).json({ error: `Unknown or invalid workflow: ${source.workflowId}` });
+  }
+
+  if (cache !== undefined && !isCacheMode(cache)) {
+    return res.status(400).json({ error: `cache must be one of: ${CACHE_MODES.join(', ')}` });
+  }
+
+  if (secrets !== undefined) {
+    return res.status(400).json({ error: CLIENT_SECRETS_ERROR });
+  }
+
+  const overrideStep = step || source.error?.step;
+  if ((provider || model) && !overrideStep) {
+    return res.status(400).json({ error: 'step is required to override provider or model' });
+  }
+
+  // Stored configs have credentials stripped, so clients resend them when needed
+  let params: RunParams;
+  try {
+    params = await resolveRunParams(
+      entry.definition,
+      { ...source.modelConfigs, ...modelConfigs },
+      cache ?? source.cache?.mode,
+      principalOf(res).user
+    );
+  } catch (error) {
+    if (error instanceof MissingSecretsError) {
+      return res.status(400).json({ error: error.message, details: error.errors });
+    }
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+  const override = provider || model ? { step: overrideStep, provider, model } : undefined;
+  try {
+    // Admission is checked against the steps as the resume will configure them
+    const saturated = saturatedBackend(configureResume(source, entry.definition, override).workflow, params.modelConfigs);
+    if (saturated) {
+      const retryAfter = saturated.retryAfterSeconds();
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Backend queue is full: ${saturated.backend}`, retryAfter });
+    }
+
+    const run = resumeRun(source, entry.definition, params, override);
+
+    res.status(202).json({
       success: true,
-      data: result,
-      metadata: {
-        executionTime: result.metadata.duration,
-        stepsExecuted: result.metadata.stepsExecuted,
-        workflowId: 'research-to-app-trial'
+      runId: run.id,
+      resumedFrom: source.id,
+      status: run.status,
+      links: {
+        self: `/api/runs/${run.id}`,
+        events: `/api/runs/${run.id}/events`,
+        cancel: `/api/runs/${run.id}/cancel`
       }
     });
-
   } catch (error) {
-    console.error('Workflow execution failed:', error);
-    res.status(500).json({
-      success: false,
+    res.status(400).json({
       error: error instanceof Error ? error.message : 'Unknown error',
-      step: error instanceof Error && 'step' in error ? error.step : undefined
+      ...(error instanceof FlowConfigurationError && { details: error.errors })
     });
   }
 });
 
-app.post('/api/models/:provider/test', async (req, res) => {
+app.post('/api/models/:provider/test', requireRole('runner'), async (req, res) => {
   const { provider } = req.params;
   const { config } = req.body;
 
@@ -143,6 +633,58 @@ app.post('/api/models/:provider/test', async (req, res) => {
   }
 });
 
+// API key management. Keys are stored hashed in API_KEYS_FILE; the key itself is returned once.
+app.get('/api/keys', requireRole('admin'), async (req, res) => {
+  try {
+    const keys = await apiKeyStore.list();
+    res.json({ keys: keys.map(({ hash, ...key }) => key) });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.post('/api/keys', requireRole('admin'), async (req, res) => {
+  const { user, role, name, rateLimit } = req.body;
+
+  if (typeof user !== 'string' || !user.trim()) {
+    return res.status(400).json({ error: 'user is required' });
+  }
+  if (!isRole(role)) {
+    return res.status(400).json({ error: `role must be one of: ${ROLES.join(', ')}` });
+  }
+  if (rateLimit !== undefined && (!Number.isInteger(rateLimit) || rateLimit < 1)) {
+    return res.status(400).json({ error: 'rateLimit must be a positive integer (requests per minute)' });
+  }
+  // Creating the first key ends unauthenticated local access, so it has to be able to create the rest
+  if (principalOf(res).keyId === 'local' && role !== 'admin') {
+    return res.status(400).json({ error: 'The first API key must have the admin role' });
+  }
+
+  try {
+    const { key, record: { hash, ...record } } = await apiKeyStore.create({
+      user: user.trim(),
+      role,
+      name: typeof name === 'string' ? name : undefined,
+      rateLimit
+    });
+    console.log(`🔑 Created ${role} API key for ${record.user}`);
+    res.status(201).json({ ...record, key });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.delete('/api/keys/:id', requireRole('admin'), async (req, res) => {
+  try {
+    if (!(await apiKeyStore.revoke(req.params.id))) {
+      return res.status(404).json({ error: `API key not found: ${req.params.id}` });
+    }
+    res.json({ success: true, id: req.params.id });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
 // Serve the main UI
 app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
@@ -152,6 +694,22 @@ app.get('/', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Research-to-App UI running at http://localhost:${PORT}`);
   console.log(`📋 API available at http://localhost:${PORT}/api`);
+
+  void apiKeyStore.list().then((keys) => {
+    if (keys.length === 0 && !process.env.ADMIN_API_KEY) {
+      console.warn(process.env.AUTH_LOCAL_ADMIN === 'true'
+        ? '⚠️ No API keys configured: only local requests are accepted, with admin access'
+        : '⚠️ No API keys configured: set ADMIN_API_KEY (or AUTH_LOCAL_ADMIN=true for local development) to use the API');
+    }
+  }).catch((error) => console.error('❌ Could not load API keys:', error));
+
+  // Definitions are validated on every lookup; this only reports problems early
+  void workflowCatalog.list().then((entries) => {
+    entries
+      .filter((entry) => entry.errors.length > 0)
+      .forEach((entry) => console.warn(`⚠️ Workflow ${entry.id} (${entry.source}) is invalid: ${entry.errors.join('; ')}`));
+    console.log(`🧩 ${entries.length} workflow(s) available`);
+  }).catch((error) => console.error('❌ Could not load workflows:', error));
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { WorkflowDefinition } from 'bilko-flow';
+
+// Step types executed in-process instead of through bilko-flow's LLM adapters
+
+export interface StepHandlerContext {
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface StepHandlerResult {
+  output: unknown;
+  metadata: Record<string, unknown>;
+}
+
+export type StepHandler = (
+  config: Record<string, unknown>,
+  context: StepHandlerContext
+) => Promise<StepHandlerResult>;
+
+const stepHandlers = new Map<string, StepHandler>();
+
+export function registerStepHandler(type: string, handler: StepHandler): void {
+  stepHandlers.set(type, handler);
+}
+
+export function getStepHandler(type: string): StepHandler | undefined {
+  return stepHandlers.get(type);
+}
+
+// bilko-flow only compiles its own step types, so validate workflows with locally handled
+// steps (and the dependency edges pointing at them) removed
+export function withoutLocalSteps(workflow: WorkflowDefinition): WorkflowDefinition {
+  const local = new Set(workflow.steps.filter((step) => stepHandlers.has(step.type)).map((step) => step.id));
+
+  return {
+    ...workflow,
+    steps: workflow.steps
+      .filter((step) => !local.has(step.id))
+      .map((step) => ({ ...step, dependencies: (step.dependencies || []).filter((dep) => !local.has(dep)) })),
+  };
+}
@@ -0,0 +1,6 @@
+import { registerStepHandler } from './handlers';
+import { verifyProject } from './verify-project';
+
+export function registerLocalStepHandlers(): void {
+  registerStepHandler('sandbox.verify-project', verifyProject);
+}
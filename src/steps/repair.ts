@@ -0,0 +1,91 @@
+import { TypecheckReport } from './verify-project';
+
+// Largest output pair (lines before × lines after) we diff line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function hasProblems(report: TypecheckReport): boolean {
+  return report.errorCount > 0;
+}
+
+export function formatDiagnostics(report: TypecheckReport): string[] {
+  return report.diagnostics.map((diagnostic) => {
+    const location = diagnostic.file ? `${diagnostic.file}(${diagnostic.line},${diagnostic.column}): ` : '';
+    return `${location}${diagnostic.code} ${diagnostic.message}`;
+  });
+}
+
+// Follow-up prompt asking the model to fix code that failed to compile. Only tsc diagnostics
+// feed the loop: the generated code itself is never run.
+export function buildCompileRepairPrompt(prompt: string, previousOutput: string, report: TypecheckReport): string {
+  const uninstalled = report.missingDependencies.length > 0
+    ? `\nThese packages are not installed in the sandbox and can be ignored: ${report.missingDependencies.join(', ')}\n`
+    : '';
+
+  return `${prompt}
+
+Your previous response was written to disk and checked with tsc --noEmit. It has type errors.
+
+Previous response:
+${previousOutput}
+
+Diagnostics:
+${formatDiagnostics(report).map((line) => `- ${line}`).join('\n')}
+${uninstalled}
+Respond with the complete corrected set of files, each in its own fenced code block preceded by its path.
+Create any missing local modules that are imported.`;
+}
+
+// Line diff of two outputs as "-"/"+" lines grouped under "@@ -old +new @@" hunk headers
+export function lineDiff(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return `@@ -1 +1 @@ (output too large to diff: ${a.length} → ${b.length} lines)`;
+  }
+
+  // Longest common subsequence lengths of the suffixes a[i..], b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let hunk: string[] = [];
+  let i = 0;
+  let j = 0;
+  let hunkStart = [0, 0];
+
+  const flush = () => {
+    if (hunk.length > 0) {
+      lines.push(`@@ -${hunkStart[0] + 1} +${hunkStart[1] + 1} @@`, ...hunk);
+      hunk = [];
+    }
+  };
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      i++;
+      j++;
+      continue;
+    }
+
+    if (hunk.length === 0) {
+      hunkStart = [i, j];
+    }
+    if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      hunk.push(`-${a[i++]}`);
+    } else {
+      hunk.push(`+${b[j++]}`);
+    }
+  }
+  flush();
+
+  return lines.join('\n');
+}
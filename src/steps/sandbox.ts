@@ -0,0 +1,104 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProjectFile } from '../artifacts/extract';
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  maxMemoryMb: number;
+}
+
+export interface ProcessResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+const MAX_CAPTURED_OUTPUT = 1024 * 1024;
+
+// Write the project into a fresh temp directory; callers must remove it when done
+export async function writeWorkspace(files: ProjectFile[]): Promise<string> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'research-app-sandbox-'));
+
+  for (const file of files) {
+    const target = path.join(directory, file.path);
+    if (!target.startsWith(directory + path.sep)) {
+      continue;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content);
+  }
+
+  return directory;
+}
+
+export async function removeWorkspace(directory: string): Promise<void> {
+  await fs.rm(directory, { recursive: true, force: true });
+}
+
+// Run one of the server's own Node tools (e.g. tsc) over a workspace with a wall-clock timeout,
+// a heap cap and a scrubbed environment. This is not an isolation boundary: it runs as the
+// server's user with its filesystem and network, so it must never be given generated code to
+// execute. The tool runs in its own process group, and the whole group is killed on timeout.
+export async function runNodeScript(
+  script: string,
+  args: string[],
+  cwd: string,
+  limits: SandboxLimits,
+  signal?: AbortSignal
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [`--max-old-space-size=${limits.maxMemoryMb}`, script, ...args], {
+      cwd,
+      env: {
+        PATH: process.env.PATH,
+        HOME: cwd,
+        CI: '1',
+        NODE_ENV: 'test',
+        NO_COLOR: '1',
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    const kill = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // The group has already exited
+      }
+    };
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    child.stdout.on('data', (chunk) => {
+      stdout = (stdout + chunk).slice(0, MAX_CAPTURED_OUTPUT);
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk).slice(0, MAX_CAPTURED_OUTPUT);
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, limits.timeoutMs);
+
+    signal?.addEventListener('abort', kill, { once: true });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', kill);
+      reject(error);
+    });
+
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', kill);
+      resolve({ exitCode, stdout, stderr, timedOut });
+    });
+  });
+}
@@ -0,0 +1,176 @@
+import { extractProject, ProjectFile } from '../artifacts/extract';
+import { StepHandler } from './handlers';
+import { removeWorkspace, runNodeScript, SandboxLimits, writeWorkspace } from './sandbox';
+
+export type CheckStatus = 'passed' | 'failed' | 'skipped' | 'timeout';
+
+export interface Diagnostic {
+  file?: string;
+  line?: number;
+  column?: number;
+  code: string;
+  message: string;
+  // Unresolvable imports are expected offline (nothing is installed) and reported separately
+  category: 'error' | 'missing-dependency';
+}
+
+export interface TestFailure {
+  name: string;
+  file?: string;
+  message: string;
+}
+
+export interface TypecheckReport {
+  status: CheckStatus;
+  errorCount: number;
+  missingDependencies: string[];
+  diagnostics: Diagnostic[];
+}
+
+export interface VerificationReport {
+  files: number;
+  typecheck: TypecheckReport;
+  tests: {
+    status: CheckStatus;
+    passed: number;
+    failed: number;
+    failures: TestFailure[];
+    reason?: string;
+  };
+}
+
+const MAX_DIAGNOSTICS = 50;
+const MISSING_DEPENDENCY_CODES = new Set(['TS2307', 'TS2688', 'TS7016']);
+const TS_DIAGNOSTIC_PATTERN = /^(?:(.+?)\((\d+),(\d+)\): )?error (TS\d+): (.+)$/gm;
+const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+// Generated code can be steered by whoever wrote the research topic, and the server has no
+// isolation boundary (separate user, no network, resource limits) to run it in
+const TESTS_NOT_RUN = 'Generated tests are not run: the server has no isolated sandbox for model-written code';
+
+function numberSetting(value: unknown, fallback: number): number {
+  return typeof value === 'number' && value > 0 ? value : fallback;
+}
+
+export function parseTscOutput(output: string): Diagnostic[] {
+  return [...output.matchAll(TS_DIAGNOSTIC_PATTERN)].map(([, file, line, column, code, message]) => {
+    // A missing relative import is a file the model forgot to generate, not an uninstalled package
+    const specifier = message.match(/'([^']+)'/)?.[1] ?? '';
+    const missingPackage = MISSING_DEPENDENCY_CODES.has(code) && !/^[./]/.test(specifier);
+
+    return {
+      file,
+      line: line ? Number(line) : undefined,
+      column: column ? Number(column) : undefined,
+      code,
+      message,
+      category: missingPackage ? 'missing-dependency' : 'error',
+    };
+  });
+}
+
+async function typecheck(
+  workspace: string,
+  files: ProjectFile[],
+  limits: SandboxLimits,
+  signal?: AbortSignal
+): Promise<TypecheckReport> {
+  const sources = files.filter((file) => /\.tsx?$/.test(file.path)).map((file) => file.path);
+  if (sources.length === 0) {
+    return { status: 'skipped' as const, errorCount: 0, missingDependencies: [], diagnostics: [] };
+  }
+
+  let tsc: string;
+  try {
+    tsc = require.resolve('typescript/bin/tsc');
+  } catch {
+    return { status: 'skipped' as const, errorCount: 0, missingDependencies: [], diagnostics: [] };
+  }
+
+  // A generated tsconfig.json is ignored (its `extends`, paths and plugins could reach outside the
+  // workspace), and --noResolve keeps tsc from reading anything but the generated sources
+  const args = [
+    '--noEmit', '--pretty', 'false', '--noResolve', '--skipLibCheck', '--strict', '--esModuleInterop',
+    '--target', 'ES2022', '--module', 'commonjs', '--moduleResolution', 'node', '--jsx', 'react-jsx',
+    ...sources,
+  ];
+
+  const result = await runNodeScript(tsc, args, workspace, limits, signal);
+  const diagnostics = parseTscOutput(result.stdout + result.stderr);
+  const errors = diagnostics.filter((diagnostic) => diagnostic.category === 'error');
+  const missingDependencies = [
+    ...new Set(
+      diagnostics
+        .filter((diagnostic) => diagnostic.category === 'missing-dependency')
+        .map((diagnostic) => diagnostic.message.match(/'([^']+)'/)?.[1] ?? diagnostic.message)
+    ),
+  ];
+
+  return {
+    status: result.timedOut ? 'timeout' as const : errors.length > 0 ? 'failed' as const : 'passed' as const,
+    errorCount: errors.length,
+    missingDependencies,
+    diagnostics: errors.slice(0, MAX_DIAGNOSTICS),
+  };
+}
+
+// Generated tests are reported, never executed
+function testsNotRun(files: ProjectFile[]) {
+  const reason = files.some((file) => TEST_FILE_PATTERN.test(file.path)) ? TESTS_NOT_RUN : 'No test files were generated';
+  return { status: 'skipped' as const, passed: 0, failed: 0, failures: [], reason };
+}
+
+export function sandboxLimits(config: Record<string, unknown>): SandboxLimits {
+  return {
+    timeoutMs: numberSetting(config.timeoutMs, 120000),
+    maxMemoryMb: numberSetting(config.maxMemoryMb, 1024),
+  };
+}
+
+// Type-check the given files in a throwaway workspace; nothing generated is executed
+export async function typecheckFiles(
+  files: ProjectFile[],
+  limits: SandboxLimits,
+  signal?: AbortSignal
+): Promise<TypecheckReport> {
+  if (files.length === 0) {
+    return { status: 'skipped', errorCount: 0, missingDependencies: [], diagnostics: [] };
+  }
+
+  const workspace = await writeWorkspace(files);
+  try {
+    return await typecheck(workspace, files, limits, signal);
+  } finally {
+    await removeWorkspace(workspace);
+  }
+}
+
+export async function verifyFiles(
+  files: ProjectFile[],
+  limits: SandboxLimits,
+  signal?: AbortSignal
+): Promise<VerificationReport> {
+  return {
+    files: files.length,
+    typecheck: await typecheckFiles(files, limits, signal),
+    tests: files.length === 0
+      ? { status: 'skipped', passed: 0, failed: 0, failures: [], reason: 'No files could be extracted' }
+      : testsNotRun(files),
+  };
+}
+
+// Writes the generated project to a temp directory and type-checks it offline.
+// Config: timeoutMs (default 120000) and maxMemoryMb (tsc heap cap, default 1024).
+export const verifyProject: StepHandler = async (config, { outputs, signal }) => {
+  const started = Date.now();
+  const report = await verifyFiles(extractProject(outputs).files, sandboxLimits(config), signal);
+
+  return {
+    output: report,
+    metadata: {
+      durationMs: Date.now() - started,
+      typeErrors: report.typecheck.errorCount,
+      testsFailed: report.tests.failed,
+    },
+  };
+};
@@ -0,0 +1,276 @@
+import express, { Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { researchToAppFlow } from '../flows/research-to-app-trial';
+import { JsonSchema } from '../flows/schema';
+
+// A local stand-in for Ollama, vLLM and TGI that speaks all three wire formats on one port,
+// so the flow and the HTTP routes can run with no model backends and no network.
+// Point OLLAMA_URL, VLLM_URL and TGI_URL (or a run's modelConfigs) at it.
+
+type ChatMessage = { role: string; content: string };
+
+export interface MockCompletionRequest {
+  endpoint: string;
+  model: string;
+  messages?: ChatMessage[];
+  // Last message for chat endpoints, the raw prompt otherwise
+  prompt: string;
+  stream: boolean;
+  // Sampling temperature as sent, whichever field the wire format carries it in
+  temperature?: number;
+  json: boolean;
+  schema?: JsonSchema;
+}
+
+export type MockResponder = (request: MockCompletionRequest) => string | Promise<string>;
+
+export interface MockInferenceOptions {
+  // Models reported by discovery and accepted by the completion endpoints;
+  // defaults to every model the research-to-app flow uses
+  models?: string[];
+  contextLength?: number;
+  respond?: MockResponder;
+}
+
+export interface MockInferenceServer {
+  url: string;
+  // Every completion request received, in order
+  requests: MockCompletionRequest[];
+  close(): Promise<void>;
+}
+
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+function flowModels(): string[] {
+  const models = researchToAppFlow.steps
+    .map((step) => (step.config as Record<string, unknown>).model)
+    .filter((model): model is string => typeof model === 'string');
+  return [...new Set(models)];
+}
+
+// Smallest value that satisfies the schema: required properties only, one array item
+function sampleFromSchema(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+      const required = (schema.required || []) as string[];
+      return Object.fromEntries(required.map((name) => [name, sampleFromSchema(properties[name] || {})]));
+    }
+    case 'array':
+      return [sampleFromSchema((schema.items || {}) as JsonSchema)];
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1;
+    case 'boolean':
+      return true;
+    case 'string':
+      return 'example';
+    default:
+      return null;
+  }
+}
+
+// Schema-conforming JSON for structured requests, an echo of the prompt otherwise. Exported so
+// custom responders can delay or alter only some replies.
+export function defaultResponder(request: MockCompletionRequest): string {
+  if (request.schema) {
+    return JSON.stringify(sampleFromSchema(request.schema));
+  }
+  if (request.json) {
+    return '{}';
+  }
+  return `Mock response from ${request.model} to: ${request.prompt.slice(0, 80)}`;
+}
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Split on word boundaries so streamed chunks look like real token deltas
+function chunks(text: string): string[] {
+  return text.match(/\s*\S+/g) || [text];
+}
+
+// Normalize the JSON constraint each wire format uses: a schema object or a plain "JSON please"
+function jsonConstraint(value: unknown): { json: boolean; schema?: JsonSchema } {
+  if (value === 'json') {
+    return { json: true };
+  }
+  if (value && typeof value === 'object') {
+    const schema = value as JsonSchema;
+    return schema.type === 'object' && !schema.properties ? { json: true } : { json: true, schema };
+  }
+  return { json: false };
+}
+
+function writeSse(res: Response, data: unknown): void {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+export function createMockInferenceApp(options: MockInferenceOptions = {}) {
+  const models = options.models ?? flowModels();
+  const contextLength = options.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  const respond = options.respond ?? defaultResponder;
+  const requests: MockCompletionRequest[] = [];
+
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  // Record the request and produce the reply, or answer 404 for a model that isn't "served"
+  async function complete(req: Request, res: Response, request: Omit<MockCompletionRequest, 'endpoint'>) {
+    if (!models.includes(request.model) && !models.includes(request.model.replace(/:latest$/, ''))) {
+      res.status(404).json({ error: `model "${request.model}" not found` });
+      return undefined;
+    }
+
+    const full = { ...request, endpoint: req.path };
+    requests.push(full);
+    const text = await respond(full);
+    const promptTokens = countTokens(request.messages ? request.messages.map((m) => m.content).join(' ') : request.prompt);
+    return { text, promptTokens, completionTokens: countTokens(text) };
+  }
+
+  // Ollama
+  app.get('/api/tags', (req, res) => {
+    res.json({ models: models.map((name) => ({ name, details: { family: 'mock', parameter_size: '7B' } })) });
+  });
+
+  app.post('/api/show', (req, res) => {
+    res.json({ model_info: { 'mock.context_length': contextLength } });
+  });
+
+  app.post(['/api/chat', '/api/generate'], async (req, res) => {
+    const chat = req.path === '/api/chat';
+    const messages: ChatMessage[] | undefined = chat ? req.body.messages : undefined;
+    const reply = await complete(req, res, {
+      model: req.body.model,
+      messages,
+      prompt: messages ? messages[messages.length - 1]?.content ?? '' : req.body.prompt ?? '',
+      stream: Boolean(req.body.stream),
+      temperature: req.body.options?.temperature,
+      ...jsonConstraint(req.body.format),
+    });
+    if (!reply) {
+      return;
+    }
+
+    const piece = (content: string) => (chat ? { message: { role: 'assistant', content } } : { response: content });
+    const final = { done: true, prompt_eval_count: reply.promptTokens, eval_count: reply.completionTokens };
+
+    if (!req.body.stream) {
+      return res.json({ model: req.body.model, ...piece(reply.text), ...final });
+    }
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    for (const chunk of chunks(reply.text)) {
+      res.write(`${JSON.stringify({ model: req.body.model, ...piece(chunk), done: false })}\n`);
+    }
+    res.end(`${JSON.stringify({ model: req.body.model, ...piece(''), ...final })}\n`);
+  });
+
+  // OpenAI-compatible (vLLM, and TGI's Messages API)
+  app.get('/v1/models', (req, res) => {
+    res.json({ object: 'list', data: models.map((id) => ({ id, object: 'model', max_model_len: contextLength })) });
+  });
+
+  app.post(['/v1/chat/completions', '/v1/completions'], async (req, res) => {
+    const chat = req.path === '/v1/chat/completions';
+    const messages: ChatMessage[] | undefined = chat ? req.body.messages : undefined;
+    const format = req.body.response_format;
+    const reply = await complete(req, res, {
+      model: req.body.model,
+      messages,
+      prompt: messages ? messages[messages.length - 1]?.content ?? '' : req.body.prompt ?? '',
+      stream: Boolean(req.body.stream),
+      temperature: req.body.temperature,
+      ...jsonConstraint(req.body.guided_json ?? (format?.type === 'json_object' ? 'json' : format?.value)),
+    });
+    if (!reply) {
+      return;
+    }
+
+    const usage = {
+      prompt_tokens: reply.promptTokens,
+      completion_tokens: reply.completionTokens,
+      total_tokens: reply.promptTokens + reply.completionTokens,
+    };
+    const choice = (content: string, streaming: boolean) => (chat
+      ? { index: 0, [streaming ? 'delta' : 'message']: { role: 'assistant', content } }
+      : { index: 0, text: content });
+
+    if (!req.body.stream) {
+      return res.json({ id: 'mock', model: req.body.model, choices: [choice(reply.text, false)], usage });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    for (const chunk of chunks(reply.text)) {
+      writeSse(res, { id: 'mock', model: req.body.model, choices: [choice(chunk, true)] });
+    }
+    writeSse(res, { id: 'mock', model: req.body.model, choices: [], usage });
+    res.end('data: [DONE]\n\n');
+  });
+
+  // TGI: one model per server, reported as the first configured model
+  app.get('/info', (req, res) => {
+    res.json({ model_id: models[0], model_dtype: 'float16', quantize: null, max_total_tokens: contextLength });
+  });
+
+  app.post(['/generate', '/generate_stream'], async (req, res) => {
+    const parameters = req.body.parameters || {};
+    const reply = await complete(req, res, {
+      model: models[0],
+      prompt: req.body.inputs ?? '',
+      stream: req.path === '/generate_stream',
+      temperature: parameters.temperature,
+      ...jsonConstraint(parameters.grammar?.value),
+    });
+    if (!reply) {
+      return;
+    }
+
+    // Like TGI, token counts only come back when the request asks for details
+    const details = parameters.details
+      ? { prompt_tokens: reply.promptTokens, generated_tokens: reply.completionTokens }
+      : undefined;
+    if (req.path === '/generate') {
+      return res.json({ generated_text: reply.text, details });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    for (const chunk of chunks(reply.text)) {
+      writeSse(res, { token: { text: chunk, special: false }, generated_text: null });
+    }
+    writeSse(res, { token: { text: '', special: true }, generated_text: reply.text, details });
+    res.end();
+  });
+
+  return { app, requests };
+}
+
+// Listen on the given port (0 picks a free one) and resolve once the server accepts connections
+export function startMockInferenceServer(
+  options: MockInferenceOptions & { port?: number } = {}
+): Promise<MockInferenceServer> {
+  const { app, requests } = createMockInferenceApp(options);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  startMockInferenceServer({ port: Number(process.env.MOCK_INFERENCE_PORT) || 11500 })
+    .then(({ url }) => {
+      console.log(`🧪 Mock inference server listening on ${url}`);
+      console.log(`   OLLAMA_URL=${url} VLLM_URL=${url} TGI_URL=${url}`);
+    })
+    .catch(console.error);
+}
@@ -0,0 +1,113 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { verifySignature } from '../notifications';
+
+// A local webhook endpoint for trying out notifications: it checks each request's signature,
+// records it, and can fail the first few requests to exercise retries. Point a target in
+// NOTIFICATIONS_FILE at its URL.
+
+export interface ReceivedNotification {
+  event?: string;
+  delivery?: string;
+  // False when the signature is missing or doesn't match the secret
+  verified: boolean;
+  payload: unknown;
+  receivedAt: string;
+}
+
+export interface WebhookReceiverOptions {
+  // HMAC key the sender signs with (the value of its signing secret)
+  secret?: string;
+  // Answer this many requests with 503 before accepting any
+  failFirst?: number;
+  onNotification?: (notification: ReceivedNotification) => void;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  notifications: ReceivedNotification[];
+  close(): Promise<void>;
+}
+
+function header(req: express.Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function createWebhookReceiverApp(options: WebhookReceiverOptions = {}) {
+  const app = express();
+  const notifications: ReceivedNotification[] = [];
+  let remainingFailures = options.failFirst ?? 0;
+
+  // Signatures cover the exact bytes sent, so keep the body as text
+  app.use(express.text({ type: '*/*' }));
+
+  app.post('*', (req, res) => {
+    if (remainingFailures > 0) {
+      remainingFailures--;
+      return res.status(503).json({ error: 'Failing on purpose to exercise retries' });
+    }
+
+    const body = typeof req.body === 'string' ? req.body : '';
+    const timestamp = header(req, 'x-webhook-timestamp');
+    const signature = header(req, 'x-webhook-signature');
+    let payload: unknown = body;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      // Record non-JSON bodies as they came
+    }
+
+    const notification: ReceivedNotification = {
+      event: header(req, 'x-webhook-event'),
+      delivery: header(req, 'x-webhook-delivery'),
+      verified: Boolean(options.secret && timestamp && signature && verifySignature(options.secret, timestamp, body, signature)),
+      payload,
+      receivedAt: new Date().toISOString(),
+    };
+    notifications.push(notification);
+    options.onNotification?.(notification);
+    res.status(204).end();
+  });
+
+  return { app, notifications };
+}
+
+// Listen on the given port (0 picks a free one) and resolve once the server accepts connections
+export function startWebhookReceiver(
+  options: WebhookReceiverOptions & { port?: number } = {}
+): Promise<WebhookReceiver> {
+  const { app, notifications } = createWebhookReceiverApp(options);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        notifications,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  const secret = process.env.WEBHOOK_SIGNING_SECRET;
+  startWebhookReceiver({
+    port: Number(process.env.WEBHOOK_RECEIVER_PORT) || 11600,
+    secret,
+    failFirst: Number(process.env.WEBHOOK_RECEIVER_FAIL_FIRST) || 0,
+    onNotification: (notification) => {
+      console.log(`${notification.verified ? '✅' : '❌'} ${notification.event} (${notification.delivery})`);
+      console.log(JSON.stringify(notification.payload, null, 2));
+    },
+  })
+    .then(({ url }) => {
+      console.log(`📬 Webhook receiver listening on ${url}`);
+      if (!secret) {
+        console.warn('⚠️ WEBHOOK_SIGNING_SECRET is not set; signatures will not be verified');
+      }
+    })
+    .catch(console.error);
+}
@@ -0,0 +1,75 @@
+import { LLMCallOptions } from 'bilko-flow';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ollamaAdapter, PromptMode, tgiAdapter, vllmAdapter } from '../src/adapters/opensource-llm';
+import { runInStepContext } from '../src/runs/context';
+import { MockInferenceServer, startMockInferenceServer } from '../src/testing/mock-inference-server';
+
+// The provider adapters called directly against the mock inference server, checking what
+// they put on the wire
+
+let mock: MockInferenceServer;
+
+// Call an adapter inside a step whose providers all use the given prompt mode
+function inStep<T>(mode: PromptMode, fn: () => Promise<T>): Promise<T> {
+  return runInStepContext(
+    {
+      runId: 'adapter-test',
+      stepId: 'adapter-test',
+      signal: new AbortController().signal,
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      providerOptions: { ollama: { mode }, vllm: { mode }, tgi: { mode } },
+    },
+    fn
+  );
+}
+
+function callOptions(overrides: Partial<LLMCallOptions> = {}): LLMCallOptions {
+  return {
+    model: 'llama3.2:3b',
+    messages: [{ role: 'user', content: 'Name three habit tracker features' }],
+    baseUrl: mock.url,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer({ models: ['llama3.2:3b'] });
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.requests.length = 0;
+});
+
+describe('temperature', () => {
+  const adapters = { ollama: ollamaAdapter, vllm: vllmAdapter, tgi: tgiAdapter };
+  const modes: PromptMode[] = ['chat', 'completion'];
+
+  for (const [provider, adapter] of Object.entries(adapters)) {
+    for (const mode of modes) {
+      it(`sends a 0 override as 0 to ${provider} (${mode})`, async () => {
+        await inStep(mode, () => adapter(callOptions({ temperature: 0 }), undefined));
+        await inStep(mode, () => adapter(callOptions(), undefined));
+
+        expect(mock.requests.map((request) => request.temperature)).toEqual([0, 0.7]);
+      });
+    }
+  }
+});
+
+describe('TGI usage', () => {
+  it('reports the same token counts streamed and not streamed', async () => {
+    const tokens: string[] = [];
+    const streamed = await inStep('completion', () => tgiAdapter(callOptions(), (token) => tokens.push(token)));
+    const whole = await inStep('completion', () => tgiAdapter(callOptions(), undefined));
+
+    expect(mock.requests.map((request) => request.endpoint)).toEqual(['/generate_stream', '/generate']);
+    expect(tokens.join('')).toBe(streamed.content);
+    expect(whole.content).toBe(streamed.content);
+    expect(whole.usage).toEqual(streamed.usage);
+    expect(whole.usage?.completion_tokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import request from 'supertest';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { configureFixtures } from '../src/adapters/fixtures';
+import { researchToAppFlow } from '../src/flows/research-to-app-trial';
+import { RunRecord } from '../src/runs/types';
+import { defaultResponder, MockInferenceServer, startMockInferenceServer } from '../src/testing/mock-inference-server';
+import app from '../src/server';
+
+// The research-to-app flow end to end through the HTTP routes: recorded against the mock
+// inference server, replayed from the recording, failed, resumed and planned
+
+const auth = { 'X-API-Key': process.env.ADMIN_API_KEY! };
+const TOPIC = 'Offline-first habit tracker with streak reminders';
+const STEP_IDS = researchToAppFlow.steps.map((step) => step.id);
+
+let mock: MockInferenceServer;
+let modelConfigs: Record<string, { baseUrl: string }>;
+
+const configsFor = (url: string) => ({ ollama: { baseUrl: url }, vllm: { baseUrl: url }, tgi: { baseUrl: url } });
+
+// Poll until the run leaves 'running'
+async function finishedRun(runId: string): Promise<RunRecord & { outputs: Record<string, unknown> }> {
+  for (;;) {
+    const response = await request(app).get(`/api/runs/${runId}`).set(auth).expect(200);
+    if (response.body.status !== 'running') {
+      return response.body;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+async function startFlow(configs = modelConfigs): Promise<string> {
+  const response = await request(app)
+    .post('/api/workflows/execute')
+    .set(auth)
+    .send({ researchTopic: TOPIC, modelConfigs: configs, cache: 'off' })
+    .expect(202);
+  expect(response.body).toMatchObject({ success: true, workflowId: researchToAppFlow.name, status: 'running' });
+  return response.body.runId;
+}
+
+async function executeFlow(): Promise<RunRecord & { outputs: Record<string, unknown> }> {
+  return finishedRun(await startFlow());
+}
+
+// The run record as stored once the run has finished; the write lands just after the status flips
+async function persistedRun(runId: string, status: RunRecord['status']): Promise<RunRecord> {
+  return vi.waitFor(async () => {
+    const run = JSON.parse(await fs.readFile(path.join(process.env.RUN_STORE_DIR!, `${runId}.json`), 'utf8'));
+    expect(run.status).toBe(status);
+    return run as RunRecord;
+  });
+}
+
+function eventTypes(text: string): { type: string; [key: string]: unknown }[] {
+  return text
+    .split('\n')
+    .filter((line) => line.startsWith('data: '))
+    .map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer();
+  modelConfigs = configsFor(mock.url);
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  configureFixtures({ mode: undefined });
+});
+
+describe('research-to-app flow over HTTP', () => {
+  let recorded: RunRecord & { outputs: Record<string, unknown> };
+
+  it('runs every step against the mock backends and records fixtures', async () => {
+    configureFixtures({ mode: 'record' });
+    recorded = await executeFlow();
+
+    expect(recorded.status).toBe('completed');
+    expect(recorded.steps.map((step) => [step.id, step.status])).toEqual(STEP_IDS.map((id) => [id, 'completed']));
+    // Schema steps are parsed; the mock answers with the smallest conforming value
+    expect(recorded.outputs['analyze-research-topic']).toEqual(expect.objectContaining({ complexity: 1, challenges: ['example'] }));
+    expect(recorded.outputs['generate-project-structure']).toEqual(expect.stringContaining('Mock response from'));
+    // Generated code is type-checked, never executed
+    expect(recorded.outputs['verify-generated-project']).toMatchObject({ tests: { status: 'skipped' } });
+    expect(mock.requests.length).toBeGreaterThanOrEqual(STEP_IDS.length - 1);
+
+    const stored = await persistedRun(recorded.id, 'completed');
+    expect(stored).toMatchObject({ id: recorded.id, owner: 'admin' });
+    expect(stored.steps.every((step) => step.status === 'completed')).toBe(true);
+  });
+
+  it('replays the recording without calling a model', async () => {
+    configureFixtures({ mode: 'replay' });
+    const before = mock.requests.length;
+    const replayed = await executeFlow();
+
+    expect(replayed.status).toBe('completed');
+    expect(mock.requests.length).toBe(before);
+    expect(replayed.outputs).toEqual(recorded.outputs);
+  });
+
+  it('lists the runs and reports how a finished run ended', async () => {
+    const list = await request(app).get('/api/runs').set(auth).query({ workflowId: researchToAppFlow.name }).expect(200);
+    expect(list.body.runs.map((run: RunRecord) => run.id)).toContain(recorded.id);
+
+    const events = await request(app).get(`/api/runs/${recorded.id}/events`).set(auth).expect(200);
+    expect(events.headers['content-type']).toMatch(/text\/event-stream/);
+    expect(eventTypes(events.text)).toEqual([expect.objectContaining({ type: 'run-finished', status: 'completed' })]);
+  });
+
+  it('streams a running run\'s events until it finishes', async () => {
+    // Completions wait until the event stream is open, so none of the run is missed
+    let release!: () => void;
+    const opened = new Promise<void>((resolve) => { release = resolve; });
+    const gated = await startMockInferenceServer({
+      respond: async (completion) => {
+        await opened;
+        return defaultResponder(completion);
+      },
+    });
+
+    try {
+      const runId = await startFlow(configsFor(gated.url));
+      const events = await request(app)
+        .get(`/api/runs/${runId}/events`)
+        .set(auth)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            text += chunk;
+            release();
+          });
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      const received = eventTypes(events.body as string);
+      const completed = received.filter((event) => event.type === 'step-completed').map((event) => event.stepId);
+      expect(completed.sort()).toEqual([...STEP_IDS].sort());
+      expect(received.at(-1)).toMatchObject({ type: 'run-finished', status: 'completed' });
+
+      // Streamed deltas add up to the step's output
+      const run = await finishedRun(runId);
+      const deltas = received
+        .filter((event) => event.type === 'step-delta' && event.stepId === 'generate-project-structure')
+        .map((event) => event.delta)
+        .join('');
+      expect(deltas).toBe(run.outputs['generate-project-structure']);
+    } finally {
+      await gated.close();
+    }
+  });
+
+  it('resumes a failed run from its failed step, reusing the completed ones', async () => {
+    // Without a recording for one step, replay fails there and every candidate after it
+    const missing = 'setup-testing';
+    await fs.rm(path.join(process.env.LLM_FIXTURES_DIR!, missing), { recursive: true });
+    configureFixtures({ mode: 'replay' });
+    const failed = await executeFlow();
+
+    expect(failed.status).toBe('failed');
+    expect(failed.error?.step).toBe(missing);
+    expect(failed.steps.find((step) => step.id === missing)?.status).toBe('failed');
+    await persistedRun(failed.id, 'failed');
+
+    configureFixtures({ mode: undefined });
+    await request(app).post(`/api/runs/${recorded.id}/resume`).set(auth).send({ modelConfigs }).expect(409);
+    const response = await request(app).post(`/api/runs/${failed.id}/resume`).set(auth).send({ modelConfigs }).expect(202);
+    expect(response.body).toMatchObject({ success: true, resumedFrom: failed.id });
+
+    const resumed = await finishedRun(response.body.runId);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.resumedFrom).toBe(failed.id);
+    const reused = resumed.steps.filter((step) => step.metadata?.reusedFrom === failed.id).map((step) => step.id);
+    expect(reused).toContain('analyze-research-topic');
+    expect(reused).not.toContain(missing);
+    expect(resumed.outputs[missing]).toEqual(expect.stringContaining('Mock response from'));
+  });
+
+  it('plans a run from the catalog without calling a model', async () => {
+    const before = mock.requests.length;
+    const response = await request(app)
+      .post(`/api/workflows/${researchToAppFlow.name}/plan`)
+      .set(auth)
+      .send({ inputs: { researchTopic: TOPIC }, modelConfigs })
+      .expect(200);
+
+    expect(mock.requests.length).toBe(before);
+    expect(response.body.problems).toEqual([]);
+    expect(response.body.stages[0]).toEqual(['analyze-research-topic']);
+    expect(response.body.steps.map((step: { id: string }) => step.id).sort()).toEqual([...STEP_IDS].sort());
+
+    const first = response.body.steps.find((step: { id: string }) => step.id === 'analyze-research-topic');
+    expect(first.prompt).toContain(TOPIC);
+    expect(first.servedBy).toMatchObject({ provider: 'ollama', baseUrl: mock.url });
+    // Runs above ran with the cache off, so nothing is cached but history gives estimates
+    expect(first.cache).toBe('miss');
+    expect(first.estimate.samples).toBeGreaterThan(0);
+  });
+});
+
+describe('request validation', () => {
+  it('requires an API key', async () => {
+    await request(app).post('/api/workflows/execute').send({ researchTopic: TOPIC }).expect(401);
+  });
+
+  it('rejects bad bodies with 400 and no run', async () => {
+    const before = (await request(app).get('/api/runs').set(auth).expect(200)).body.runs.length;
+
+    await request(app).post('/api/workflows/execute').set(auth).send({ modelConfigs }).expect(400);
+    await request(app)
+      .post('/api/workflows/execute')
+      .set(auth)
+      .send({ researchTopic: TOPIC, modelConfigs, secrets: { JWT_SECRET: 'from-client' } })
+      .expect(400);
+    const overrides = await request(app)
+      .post(`/api/workflows/${researchToAppFlow.name}/execute`)
+      .set(auth)
+      .send({ inputs: { researchTopic: TOPIC }, modelConfigs, stepOverrides: { 'design-architecture': 'vllm' } })
+      .expect(400);
+    expect(overrides.body.details).toEqual(['design-architecture: overrides must be an object']);
+    await request(app)
+      .post(`/api/workflows/${researchToAppFlow.name}/plan`)
+      .set(auth)
+      .send({ inputs: { researchTopic: TOPIC }, stepOverrides: [] })
+      .expect(400);
+
+    expect((await request(app).get('/api/runs').set(auth).expect(200)).body.runs).toHaveLength(before);
+  });
+
+  it('answers 404 for unknown runs and workflows', async () => {
+    await request(app).get('/api/runs/no-such-run').set(auth).expect(404);
+    await request(app).post('/api/runs/no-such-run/resume').set(auth).send({}).expect(404);
+    await request(app).post('/api/workflows/no-such-workflow/plan').set(auth).send({}).expect(404);
+  });
+});
@@ -0,0 +1,26 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Set before any suite imports the server, which reads its settings at load time
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'research-to-app-test-'));
+
+Object.assign(process.env, {
+  PORT: '0',
+  ADMIN_API_KEY: 'test-admin-key',
+  API_KEYS_FILE: path.join(dataDir, 'api-keys.json'),
+  RUN_STORE_DIR: path.join(dataDir, 'runs'),
+  RESPONSE_CACHE_DIR: path.join(dataDir, 'cache'),
+  LLM_FIXTURES_DIR: path.join(dataDir, 'fixtures'),
+  NOTIFICATIONS_FILE: path.join(dataDir, 'notifications.json'),
+  NOTIFICATIONS_LOG_DIR: path.join(dataDir, 'notifications'),
+  SECRETS_FILE: path.join(dataDir, 'secrets.enc'),
+  // The research-to-app flow's declared secrets
+  DATABASE_URL: 'postgresql://test-db.local:5432/research_app',
+  JWT_SECRET: 'test-jwt-secret-value',
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,91 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import express from 'express';
+import { promises as fs } from 'fs';
+import path from 'path';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import handler from '../api/execute';
+import { researchToAppFlow } from '../src/flows/research-to-app-trial';
+import { MockInferenceServer, startMockInferenceServer } from '../src/testing/mock-inference-server';
+
+// The serverless entry point, mounted the way Vercel calls it: a parsed JSON body, the query
+// string and Express-style response helpers
+
+const auth = { 'X-API-Key': process.env.ADMIN_API_KEY! };
+const TOPIC = 'Shared grocery list for households';
+const STEP_IDS = researchToAppFlow.steps.map((step) => step.id);
+
+const app = express()
+  .use(express.json())
+  .all('/api/execute', (req, res) => handler(req as unknown as VercelRequest, res as unknown as VercelResponse));
+
+let mock: MockInferenceServer;
+let modelConfigs: Record<string, { baseUrl: string }>;
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer();
+  modelConfigs = { ollama: { baseUrl: mock.url }, vllm: { baseUrl: mock.url }, tgi: { baseUrl: mock.url } };
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+describe('POST /api/execute', () => {
+  let runId: string;
+
+  it('runs the flow within the request and streams it back as NDJSON', async () => {
+    const response = await request(app)
+      .post('/api/execute')
+      .set(auth)
+      .send({ researchTopic: TOPIC, modelConfigs, cache: 'off' })
+      .expect(202)
+      .expect('Content-Type', /application\/x-ndjson/);
+
+    const lines = response.text.trim().split('\n').map((line) => JSON.parse(line));
+    const [accepted, ...events] = lines.slice(0, -1);
+    const finished = lines.at(-1);
+    runId = accepted.runId;
+
+    expect(accepted).toMatchObject({ success: true, status: 'running', links: { self: `/api/execute?id=${runId}` } });
+    expect(events.filter((event) => event.type === 'step-completed').map((event) => event.stepId).sort())
+      .toEqual([...STEP_IDS].sort());
+    expect(events.at(-1)).toMatchObject({ type: 'run-finished', status: 'completed' });
+    expect(finished).toMatchObject({ id: runId, status: 'completed' });
+    expect(Object.keys(finished.outputs).sort()).toEqual([...STEP_IDS].sort());
+    expect(finished.outputs['design-architecture']).toEqual(expect.objectContaining({ components: expect.any(Array) }));
+
+    await vi.waitFor(async () => {
+      const stored = JSON.parse(await fs.readFile(path.join(process.env.RUN_STORE_DIR!, `${runId}.json`), 'utf8'));
+      expect(stored).toMatchObject({ id: runId, status: 'completed', owner: 'admin' });
+    });
+  });
+
+  it('reports the finished run and lists it', async () => {
+    const run = await request(app).get('/api/execute').set(auth).query({ id: runId }).expect(200);
+    expect(run.body).toMatchObject({ id: runId, status: 'completed', metadata: { stepsExecuted: STEP_IDS.length } });
+
+    const list = await request(app).get('/api/execute').set(auth).expect(200);
+    expect(list.body.runs.map((summary: { id: string }) => summary.id)).toContain(runId);
+
+    await request(app).post('/api/execute').set(auth).query({ id: runId, action: 'cancel' }).expect(409);
+  });
+
+  it('rejects bad requests before starting a run', async () => {
+    await request(app).post('/api/execute').send({ researchTopic: TOPIC }).expect(401);
+    await request(app).post('/api/execute').set(auth).query({ access_token: 'test-admin-key' }).unset('X-API-Key').expect(401);
+    await request(app).put('/api/execute').set(auth).send({}).expect(405);
+    await request(app).post('/api/execute').set(auth).send({ workflowId: 'no-such-workflow' }).expect(404);
+    await request(app).post('/api/execute').set(auth).send({ modelConfigs }).expect(400);
+    await request(app).post('/api/execute').set(auth).send({ researchTopic: TOPIC, cache: 'sometimes' }).expect(400);
+
+    const overrides = await request(app)
+      .post('/api/execute')
+      .set(auth)
+      .send({ researchTopic: TOPIC, modelConfigs, stepOverrides: 'vllm' })
+      .expect(400);
+    expect(overrides.body.details).toEqual(['stepOverrides must be an object keyed by step ID']);
+
+    await request(app).get('/api/execute').set(auth).query({ id: 'no-such-run' }).expect(404);
+  });
+});
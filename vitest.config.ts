@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// End-to-end suites run the flow offline: model calls go to the mock inference server or are
+// replayed from fixtures, and every run, key and cached response lives in a temporary directory
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    testTimeout: 120_000,
+    hookTimeout: 60_000,
+    // Whole flows are CPU-bound; running suites side by side only makes each slower
+    fileParallelism: false,
+  },
+});